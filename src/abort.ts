@@ -0,0 +1,44 @@
+/**
+ * Combines the given signals, plus a timeout if one is set, into a single
+ * signal that aborts as soon as any of them does.
+ */
+export function combineSignals(
+  signals: (AbortSignal | undefined)[],
+  timeoutMs?: number
+): AbortSignal | undefined {
+  const active = signals.filter(
+    (signal): signal is AbortSignal => signal !== undefined
+  );
+  if (timeoutMs !== undefined) {
+    active.push(AbortSignal.timeout(timeoutMs));
+  }
+  return active.length > 1 ? AbortSignal.any(active) : active[0];
+}
+
+//rejects with the abort reason as soon as `signal` aborts
+export function raceAbort<T>(
+  promise: Promise<T>,
+  signal?: AbortSignal
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+  if (signal.aborted) {
+    return Promise.reject(signal.reason);
+  }
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() =>
+      signal.removeEventListener("abort", onAbort)
+    );
+  });
+}
+
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  return raceAbort(
+    new Promise<void>((resolve) => (timer = setTimeout(resolve, ms))),
+    signal
+  ).finally(() => clearTimeout(timer));
+}
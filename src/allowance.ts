@@ -0,0 +1,49 @@
+import { readContract } from "@coinbase/coinbase-sdk";
+import { Abi, erc20Abi } from "viem";
+import { ActionStep } from "./handlers";
+
+export interface ReadContractParams {
+  networkId: string;
+  contractAddress: `0x${string}`;
+  abi: Abi;
+  method: string;
+  args: Record<string, any>;
+}
+
+/**
+ * Read-only access to contract state, used for allowance and similar checks.
+ */
+export interface ContractReader {
+  readContract(params: ReadContractParams): Promise<unknown>;
+}
+
+export const cdpContractReader: ContractReader = {
+  readContract: ({ networkId, contractAddress, abi, method, args }) =>
+    readContract({ networkId, contractAddress, abi, method, args }),
+};
+
+/**
+ * Returns the current allowance when it already covers the approval in
+ * `step`, `undefined` otherwise.
+ */
+export async function getSufficientAllowance(
+  reader: ContractReader,
+  networkId: string,
+  owner: string,
+  step: ActionStep
+): Promise<bigint | undefined> {
+  if (step.type !== "invoke" || step.method !== "approve") {
+    return undefined;
+  }
+  const { spender, amount } = step.args;
+  const allowance = BigInt(
+    (await reader.readContract({
+      networkId,
+      contractAddress: step.contractAddress,
+      abi: erc20Abi,
+      method: "allowance",
+      args: { owner, spender },
+    })) as bigint
+  );
+  return allowance >= BigInt(amount) ? allowance : undefined;
+}
@@ -0,0 +1,98 @@
+import type { TransactionResult } from "@brian-ai/sdk";
+import { encodeFunctionData, erc20Abi } from "viem";
+import { ApprovalCapError } from "./errors";
+import { ActionStep } from "./handlers";
+import { getPulledAmounts } from "./spend";
+
+/**
+ * How ERC-20 approvals returned by Brian are sent:
+ * - `asProvided`: unchanged
+ * - `exact`: capped at the amount the following router call spends
+ * - `exactAndRevoke`: capped, and reset to zero once the action confirms
+ */
+export type ApprovalPolicy = "asProvided" | "exact" | "exactAndRevoke";
+
+function withApprovedAmount(step: ActionStep, amount: bigint): ActionStep {
+  if (step.type !== "invoke") {
+    return step;
+  }
+  const { spender } = step.args;
+  return {
+    ...step,
+    args: { ...step.args, amount: amount.toString() },
+    step: {
+      ...step.step,
+      data: encodeFunctionData({
+        abi: erc20Abi,
+        functionName: "approve",
+        args: [spender, amount],
+      }),
+    },
+  };
+}
+
+//what the action's router calls spend of `token`: read from their calldata,
+//else Brian's quoted `fromAmount` when it quotes that token
+function getRouterSpend(
+  result: TransactionResult,
+  steps: ActionStep[],
+  token: string
+): bigint | undefined {
+  const pulled = steps
+    .filter(({ role }) => role === "main")
+    .flatMap((step) => getPulledAmounts(step) ?? [])
+    .filter(([pulledToken]) => pulledToken.toLowerCase() === token);
+  if (pulled.length > 0) {
+    return pulled.reduce((total, [, amount]) => total + BigInt(amount), 0n);
+  }
+  const { fromAmount, fromToken } = result.data;
+  if (fromAmount !== undefined && fromToken?.address.toLowerCase() === token) {
+    return BigInt(fromAmount);
+  }
+  return undefined;
+}
+
+/**
+ * Rewrites the approvals of an action under `policy`. Capping throws an
+ * `ApprovalCapError` when the amount an approval covers cannot be
+ * determined, rather than sending it uncapped.
+ */
+export function applyApprovalPolicy(
+  result: TransactionResult,
+  steps: ActionStep[],
+  policy: ApprovalPolicy
+): ActionStep[] {
+  if (policy === "asProvided") {
+    return steps;
+  }
+  const revokes: ActionStep[] = [];
+  const rewritten = steps.map((step) => {
+    if (
+      step.role !== "approve" ||
+      step.type !== "invoke" ||
+      step.method !== "approve"
+    ) {
+      return step;
+    }
+    const { spender } = step.args;
+    const spent = getRouterSpend(
+      result,
+      steps,
+      step.contractAddress.toLowerCase()
+    );
+    if (spent === undefined) {
+      throw new ApprovalCapError(
+        step.contractAddress,
+        spender,
+        `Cannot tell how much of token ${step.contractAddress} the ${result.action} action spends, so its approval cannot be capped`
+      );
+    }
+    const approval =
+      BigInt(step.args.amount) > spent ? withApprovedAmount(step, spent) : step;
+    if (policy === "exactAndRevoke") {
+      revokes.push({ ...withApprovedAmount(step, 0n), role: "revoke" });
+    }
+    return approval;
+  });
+  return [...rewritten, ...revokes];
+}
@@ -0,0 +1,230 @@
+import { appendFile, mkdir, readFile } from "fs/promises";
+import { dirname } from "path";
+
+export interface SpendBudget {
+  //token address, `NULL_ADDRESS` for the native token
+  token: string;
+  //maximum spend inside the window, in base units
+  limit: bigint | string;
+  windowMs: number;
+}
+
+export interface SpendRecord {
+  walletId: string;
+  executionId: string;
+  action: string;
+  token: string;
+  amount: string;
+  spentAt: string;
+}
+
+export interface SpendStore {
+  add(record: SpendRecord): Promise<void>;
+  list(walletId: string, since: Date): Promise<SpendRecord[]>;
+}
+
+export class InMemorySpendStore implements SpendStore {
+  private readonly records: SpendRecord[] = [];
+
+  async add(record: SpendRecord): Promise<void> {
+    this.records.push({ ...record });
+  }
+
+  async list(walletId: string, since: Date): Promise<SpendRecord[]> {
+    return this.records.filter(
+      (record) =>
+        record.walletId === walletId && Date.parse(record.spentAt) >= +since
+    );
+  }
+}
+
+/**
+ * Appends every record as one JSON line to `filePath`.
+ */
+export class FileSpendStore implements SpendStore {
+  constructor(private readonly filePath: string) {}
+
+  async add(record: SpendRecord): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, `${JSON.stringify(record)}\n`);
+  }
+
+  async list(walletId: string, since: Date): Promise<SpendRecord[]> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+    return content
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => JSON.parse(line) as SpendRecord)
+      .filter(
+        (record) =>
+          record.walletId === walletId && Date.parse(record.spentAt) >= +since
+      );
+  }
+}
+
+export interface BudgetViolation {
+  token: string;
+  limit: bigint;
+  windowMs: number;
+  spent: bigint;
+  requested: bigint;
+}
+
+export const DEFAULT_BUDGETED_ACTIONS = [
+  "transfer",
+  "swap",
+  "bridge",
+  "deposit",
+];
+
+/**
+ * Enforces rolling spend budgets per wallet, counting what confirmed
+ * actions spent according to their decoded calldata.
+ *
+ * Runs reserve their spend before sending anything, so concurrent runs on one
+ * wallet cannot both pass the check. Reservations live in this instance
+ * only: trackers in other processes sharing a store do not see them.
+ */
+export class BudgetTracker {
+  //spend reserved by runs still in progress, keyed by execution id
+  private readonly reservations = new Map<
+    string,
+    { walletId: string; spend: Map<string, bigint> }
+  >();
+  private readonly queues = new Map<string, Promise<void>>();
+
+  constructor(
+    readonly budgets: SpendBudget[],
+    readonly store: SpendStore = new InMemorySpendStore(),
+    readonly actions: string[] = DEFAULT_BUDGETED_ACTIONS
+  ) {}
+
+  tracks(action: string): boolean {
+    return this.actions.includes(action);
+  }
+
+  async check(
+    walletId: string,
+    requested: Map<string, bigint>,
+    now: Date = new Date()
+  ): Promise<BudgetViolation[]> {
+    const violations: BudgetViolation[] = [];
+    for (const { token, limit, windowMs } of this.budgets) {
+      const key = token.toLowerCase();
+      const amount = requested.get(key) ?? 0n;
+      if (amount === 0n) {
+        continue;
+      }
+      const records = await this.store.list(
+        walletId,
+        new Date(now.getTime() - windowMs)
+      );
+      let spent = records
+        .filter((record) => record.token === key)
+        .reduce((total, record) => total + BigInt(record.amount), 0n);
+      for (const reservation of this.reservations.values()) {
+        if (reservation.walletId === walletId) {
+          spent += reservation.spend.get(key) ?? 0n;
+        }
+      }
+      if (spent + amount > BigInt(limit)) {
+        violations.push({
+          token,
+          limit: BigInt(limit),
+          windowMs,
+          spent,
+          requested: amount,
+        });
+      }
+    }
+    return violations;
+  }
+
+  /**
+   * Checks `requested` and, if it fits every budget, holds it for
+   * `executionId` until it is recorded or released.
+   */
+  async reserve(
+    walletId: string,
+    executionId: string,
+    requested: Map<string, bigint>,
+    now: Date = new Date()
+  ): Promise<BudgetViolation[]> {
+    return this.serialize(walletId, async () => {
+      const violations = await this.check(walletId, requested, now);
+      if (violations.length === 0) {
+        const reservation = this.reservations.get(executionId);
+        const spend = new Map(reservation?.spend);
+        for (const [token, amount] of requested) {
+          const key = token.toLowerCase();
+          spend.set(key, (spend.get(key) ?? 0n) + amount);
+        }
+        this.reservations.set(executionId, { walletId, spend });
+      }
+      return violations;
+    });
+  }
+
+  //records confirmed spend, taking it off the execution's reservation
+  async record(
+    walletId: string,
+    executionId: string,
+    action: string,
+    spend: Map<string, bigint>,
+    now: Date = new Date()
+  ): Promise<void> {
+    await this.serialize(walletId, async () => {
+      const reserved = this.reservations.get(executionId)?.spend;
+      for (const [token, amount] of spend) {
+        if (amount <= 0n) {
+          continue;
+        }
+        const key = token.toLowerCase();
+        await this.store.add({
+          walletId,
+          executionId,
+          action,
+          token: key,
+          amount: amount.toString(),
+          spentAt: now.toISOString(),
+        });
+        const left = (reserved?.get(key) ?? 0n) - amount;
+        reserved?.set(key, left > 0n ? left : 0n);
+      }
+    });
+  }
+
+  //drops what the execution reserved but never spent
+  async release(executionId: string): Promise<void> {
+    const reservation = this.reservations.get(executionId);
+    if (reservation) {
+      await this.serialize(reservation.walletId, async () => {
+        this.reservations.delete(executionId);
+      });
+    }
+  }
+
+  //runs `task` once every earlier task of the wallet has settled
+  private serialize<T>(walletId: string, task: () => Promise<T>): Promise<T> {
+    const result = (this.queues.get(walletId) ?? Promise.resolve()).then(task);
+    const queue = result.then(
+      () => undefined,
+      () => undefined
+    );
+    this.queues.set(walletId, queue);
+    void queue.then(() => {
+      if (this.queues.get(walletId) === queue) {
+        this.queues.delete(walletId);
+      }
+    });
+    return result;
+  }
+}
@@ -0,0 +1,25 @@
+import { WrongNetworkError } from "./errors";
+
+/**
+ * Brian chain id for every CDP network id the SDK can quote prompts on.
+ */
+export const NETWORK_CHAIN_IDS: Record<string, number> = {
+  "base-mainnet": 8453,
+  "base-sepolia": 84532,
+  "ethereum-mainnet": 1,
+  "ethereum-sepolia": 11155111,
+  "arbitrum-mainnet": 42161,
+  "arbitrum-sepolia": 421614,
+  "polygon-mainnet": 137,
+};
+
+export function getChainIdForNetwork(networkId: string): number {
+  const chainId = NETWORK_CHAIN_IDS[networkId];
+  if (chainId === undefined) {
+    throw new WrongNetworkError(
+      networkId,
+      `Network ${networkId} has no Brian-supported chain`
+    );
+  }
+  return chainId;
+}
@@ -0,0 +1,98 @@
+import { randomUUID } from "crypto";
+import { mkdir, readFile, rename, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import { ExecutionPlan } from "./plan";
+import { TransactResult } from "./result";
+
+export type ExecutionStatus = "running" | "failed" | "complete";
+
+/**
+ * Persisted progress of one execution, enough to resume it after a failure
+ * or a restart.
+ */
+export interface ExecutionCheckpoint {
+  executionId: string;
+  //registry key of the wallet the execution ran on, if one was given
+  walletId?: string;
+  plan: ExecutionPlan;
+  result: TransactResult;
+  status: ExecutionStatus;
+  updatedAt: string;
+}
+
+export interface CheckpointStore {
+  get(executionId: string): Promise<ExecutionCheckpoint | undefined>;
+  save(checkpoint: ExecutionCheckpoint): Promise<void>;
+  delete(executionId: string): Promise<void>;
+}
+
+export class InMemoryCheckpointStore implements CheckpointStore {
+  private readonly checkpoints = new Map<string, ExecutionCheckpoint>();
+
+  async get(executionId: string): Promise<ExecutionCheckpoint | undefined> {
+    const checkpoint = this.checkpoints.get(executionId);
+    return checkpoint && structuredClone(checkpoint);
+  }
+
+  async save(checkpoint: ExecutionCheckpoint): Promise<void> {
+    this.checkpoints.set(checkpoint.executionId, structuredClone(checkpoint));
+  }
+
+  async delete(executionId: string): Promise<void> {
+    this.checkpoints.delete(executionId);
+  }
+}
+
+/**
+ * Stores every checkpoint as `<directory>/<executionId>.json`. Each save
+ * writes a temporary file and renames it over the old one, so a crash
+ * mid-write never leaves a truncated checkpoint.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  constructor(private readonly directory: string) {}
+
+  async get(executionId: string): Promise<ExecutionCheckpoint | undefined> {
+    try {
+      return JSON.parse(await readFile(this.pathFor(executionId), "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  async save(checkpoint: ExecutionCheckpoint): Promise<void> {
+    await mkdir(this.directory, { recursive: true });
+    const path = this.pathFor(checkpoint.executionId);
+    const temporaryPath = `${path}.${randomUUID()}.tmp`;
+    try {
+      await writeFile(temporaryPath, JSON.stringify(checkpoint, null, 2));
+      await rename(temporaryPath, path);
+    } catch (error) {
+      await rm(temporaryPath, { force: true });
+      throw error;
+    }
+  }
+
+  async delete(executionId: string): Promise<void> {
+    await rm(this.pathFor(executionId), { force: true });
+  }
+
+  private pathFor(executionId: string): string {
+    return join(this.directory, `${encodeURIComponent(executionId)}.json`);
+  }
+}
+
+/**
+ * Drops the live CDP objects so the result can be persisted.
+ */
+export function toCheckpointResult(result: TransactResult): TransactResult {
+  return {
+    ...result,
+    actions: result.actions.map((action) => ({
+      ...action,
+      steps: action.steps.map(({ transaction, ...step }) => step),
+    })),
+  };
+}
@@ -0,0 +1,96 @@
+import { sleep } from "./abort";
+import { ContractReader } from "./allowance";
+import { EnsCommitmentError } from "./errors";
+import { ENS_REGISTRAR_CONTROLLER_ABI } from "./utils";
+
+/**
+ * Clock and timer used while waiting for an ENS commitment to mature.
+ * Replace it to drive the wait from a job queue, or to test without
+ * waiting for real.
+ */
+export interface CommitmentScheduler {
+  now(): number;
+  wait(ms: number, signal?: AbortSignal): Promise<void>;
+}
+
+export const defaultCommitmentScheduler: CommitmentScheduler = {
+  now: () => Date.now(),
+  wait: sleep,
+};
+
+//block timestamps can trail the wall clock, so wait a little longer
+export const ENS_COMMITMENT_MARGIN_MS = 5000;
+//how often to look again while the commitment is not visible yet
+export const ENS_COMMITMENT_POLL_MS = 5000;
+
+export interface WaitForCommitmentParams {
+  reader: ContractReader;
+  networkId: string;
+  controller: `0x${string}`;
+  commitment: `0x${string}`;
+  scheduler?: CommitmentScheduler;
+  signal?: AbortSignal;
+  //called before every wait, with its length
+  onWait?: (waitMs: number) => void;
+}
+
+/**
+ * Polls the registrar controller until `commitment` is at least
+ * `minCommitmentAge` old. Throws an `EnsCommitmentError` once it is older
+ * than `maxCommitmentAge`, as the registration would then revert.
+ */
+export async function waitForCommitment({
+  reader,
+  networkId,
+  controller,
+  commitment,
+  scheduler = defaultCommitmentScheduler,
+  signal,
+  onWait,
+}: WaitForCommitmentParams): Promise<void> {
+  const read = async (method: string, args: Record<string, any> = {}) =>
+    BigInt(
+      (await reader.readContract({
+        networkId,
+        contractAddress: controller,
+        abi: ENS_REGISTRAR_CONTROLLER_ABI,
+        method,
+        args,
+      })) as bigint
+    );
+  const minAgeMs = Number(await read("minCommitmentAge")) * 1000;
+  const maxAgeMs = Number(await read("maxCommitmentAge")) * 1000;
+  const startedAt = scheduler.now();
+
+  while (true) {
+    const committedAt = Number(await read("commitments", { "": commitment }));
+    const now = scheduler.now();
+    let waitMs: number;
+    if (committedAt === 0) {
+      //the commit landed but the node serving reads has not seen it yet
+      if (now - startedAt > maxAgeMs) {
+        throw new EnsCommitmentError(
+          commitment,
+          `ENS commitment ${commitment} was not found on-chain`
+        );
+      }
+      waitMs = ENS_COMMITMENT_POLL_MS;
+    } else {
+      const ageMs = now - committedAt * 1000;
+      if (ageMs > maxAgeMs) {
+        throw new EnsCommitmentError(
+          commitment,
+          `ENS commitment ${commitment} expired after ${
+            maxAgeMs / 1000
+          }s; commit again to register`
+        );
+      }
+      if (ageMs >= minAgeMs + ENS_COMMITMENT_MARGIN_MS) {
+        return;
+      }
+      waitMs = minAgeMs + ENS_COMMITMENT_MARGIN_MS - ageMs;
+    }
+    onWait?.(waitMs);
+    await scheduler.wait(waitMs, signal);
+  }
+}
@@ -0,0 +1,378 @@
+import type { BudgetViolation } from "./budgets";
+import type { PolicyViolation } from "./policy";
+import type { TransactResult } from "./result";
+
+export type ErrorCode =
+  | "INVALID_CONFIGURATION"
+  | "NO_WALLET"
+  | "WALLET_CONFLICT"
+  | "WRONG_NETWORK"
+  | "BRIAN_API_ERROR"
+  | "CALLDATA_DECODE_FAILED"
+  | "UNSUPPORTED_ACTION"
+  | "INVALID_PLAN"
+  | "EXECUTION_NOT_FOUND"
+  | "EXECUTION_IN_PROGRESS"
+  | "EXECUTION_FAILED"
+  | "STALE_EXECUTION"
+  | "POLICY_VIOLATION"
+  | "BUDGET_EXCEEDED"
+  | "USER_REJECTED"
+  | "ABORTED"
+  | "STEP_EXECUTION_FAILED"
+  | "ENS_COMMITMENT_FAILED"
+  | "UNKNOWN_SOLVER"
+  | "APPROVAL_CAP_UNKNOWN"
+  | "UNKNOWN_SPEND";
+
+/**
+ * Base class of every error the SDK throws. `code` is stable and meant for
+ * programmatic handling, the message for humans.
+ */
+export class BrianCoinbaseSDKError extends Error {
+  readonly code: ErrorCode;
+
+  constructor(
+    code: ErrorCode,
+    message: string,
+    options?: { cause?: unknown }
+  ) {
+    super(message, options);
+    this.name = "BrianCoinbaseSDKError";
+    this.code = code;
+  }
+}
+
+export class ConfigurationError extends BrianCoinbaseSDKError {
+  constructor(message: string) {
+    super("INVALID_CONFIGURATION", message);
+    this.name = "ConfigurationError";
+  }
+}
+
+/**
+ * Thrown when no wallet, or no wallet address, matches the request.
+ */
+export class NoWalletError extends BrianCoinbaseSDKError {
+  readonly walletId?: string;
+
+  constructor(message: string, walletId?: string) {
+    super("NO_WALLET", message);
+    this.name = "NoWalletError";
+    this.walletId = walletId;
+  }
+}
+
+/**
+ * Thrown when a wallet is registered under a key already bound to another
+ * wallet, which would send one user's prompts from someone else's wallet.
+ */
+export class WalletConflictError extends BrianCoinbaseSDKError {
+  readonly walletId: string;
+
+  constructor(walletId: string, message: string) {
+    super("WALLET_CONFLICT", message);
+    this.name = "WalletConflictError";
+    this.walletId = walletId;
+  }
+}
+
+export class WrongNetworkError extends BrianCoinbaseSDKError {
+  readonly networkId: string;
+
+  constructor(networkId: string, message: string) {
+    super("WRONG_NETWORK", message);
+    this.name = "WrongNetworkError";
+    this.networkId = networkId;
+  }
+}
+
+/**
+ * Thrown when Brian could not be quoted, after retries. The original Brian
+ * SDK error is the `cause`.
+ */
+export class BrianApiError extends BrianCoinbaseSDKError {
+  constructor(message: string, cause?: unknown) {
+    super("BRIAN_API_ERROR", message, { cause });
+    this.name = "BrianApiError";
+  }
+}
+
+/**
+ * Thrown when calldata returned by Brian does not match the ABI used to
+ * decode it.
+ */
+export class CalldataDecodeError extends BrianCoinbaseSDKError {
+  readonly selector: string;
+  readonly abiName?: string;
+
+  constructor(
+    message: string,
+    {
+      selector,
+      abiName,
+      cause,
+    }: { selector: string; abiName?: string; cause?: unknown }
+  ) {
+    super("CALLDATA_DECODE_FAILED", message, { cause });
+    this.name = "CalldataDecodeError";
+    this.selector = selector;
+    this.abiName = abiName;
+  }
+}
+
+export class UnsupportedActionError extends BrianCoinbaseSDKError {
+  readonly action: string;
+
+  constructor(action: string, message: string) {
+    super("UNSUPPORTED_ACTION", message);
+    this.name = "UnsupportedActionError";
+    this.action = action;
+  }
+}
+
+/**
+ * Thrown when neither the solver name nor the router it calls is in the
+ * solver ABI registry.
+ */
+export class UnknownSolverError extends BrianCoinbaseSDKError {
+  readonly solver: string;
+  readonly chainId?: number;
+  readonly router?: string;
+
+  constructor(solver: string, router?: { chainId: number; address: string }) {
+    super(
+      "UNKNOWN_SOLVER",
+      `No ABI registered for solver "${solver}"${
+        router ? ` or router ${router.address} on chain ${router.chainId}` : ""
+      }`
+    );
+    this.name = "UnknownSolverError";
+    this.solver = solver;
+    this.chainId = router?.chainId;
+    this.router = router?.address;
+  }
+}
+
+export class InvalidPlanError extends BrianCoinbaseSDKError {
+  constructor(message: string) {
+    super("INVALID_PLAN", message);
+    this.name = "InvalidPlanError";
+  }
+}
+
+export class ExecutionNotFoundError extends BrianCoinbaseSDKError {
+  readonly executionId: string;
+
+  constructor(executionId: string) {
+    super(
+      "EXECUTION_NOT_FOUND",
+      `No checkpoint found for execution ${executionId}`
+    );
+    this.name = "ExecutionNotFoundError";
+    this.executionId = executionId;
+  }
+}
+
+/**
+ * Thrown when a step fails to submit or lands as failed. `result` holds
+ * every step attempted so far, including the failed one.
+ */
+export class StepExecutionError extends BrianCoinbaseSDKError {
+  readonly result: TransactResult;
+  readonly actionIndex: number;
+  readonly stepIndex: number;
+
+  constructor(
+    message: string,
+    {
+      result,
+      actionIndex,
+      stepIndex,
+      cause,
+    }: {
+      result: TransactResult;
+      actionIndex: number;
+      stepIndex: number;
+      cause?: unknown;
+    }
+  ) {
+    super("STEP_EXECUTION_FAILED", message, { cause });
+    this.name = "StepExecutionError";
+    this.result = result;
+    this.actionIndex = actionIndex;
+    this.stepIndex = stepIndex;
+  }
+}
+
+export class StaleExecutionError extends BrianCoinbaseSDKError {
+  readonly executionId: string;
+
+  constructor(executionId: string, message: string) {
+    super("STALE_EXECUTION", message);
+    this.name = "StaleExecutionError";
+    this.executionId = executionId;
+  }
+}
+
+/**
+ * Thrown when an execution is still running, or stopped with a step in
+ * flight. `result` holds its progress once it has started sending. `live`
+ * is set when the execution is running in this SDK instance, and must not
+ * be resumed.
+ */
+export class ExecutionInProgressError extends BrianCoinbaseSDKError {
+  readonly executionId: string;
+  readonly result?: TransactResult;
+  readonly live: boolean;
+
+  constructor(
+    executionId: string,
+    result?: TransactResult,
+    message = `Execution ${executionId} is still in progress`,
+    live = false
+  ) {
+    super("EXECUTION_IN_PROGRESS", message);
+    this.name = "ExecutionInProgressError";
+    this.executionId = executionId;
+    this.result = result;
+    this.live = live;
+  }
+}
+
+/**
+ * Thrown when an idempotency key is repeated after its run failed. `result`
+ * holds what that run left behind, which `resume` can pick up.
+ */
+export class ExecutionFailedError extends BrianCoinbaseSDKError {
+  readonly executionId: string;
+  readonly result: TransactResult;
+
+  constructor(executionId: string, result: TransactResult) {
+    super("EXECUTION_FAILED", `Execution ${executionId} failed`);
+    this.name = "ExecutionFailedError";
+    this.executionId = executionId;
+    this.result = result;
+  }
+}
+
+/**
+ * Thrown before anything is sent when the decoded steps break the
+ * configured policy. Lists every violation, not just the first.
+ */
+export class PolicyViolationError extends BrianCoinbaseSDKError {
+  readonly violations: PolicyViolation[];
+
+  constructor(violations: PolicyViolation[]) {
+    super(
+      "POLICY_VIOLATION",
+      `Transaction policy violated: ${violations
+        .map(({ message }) => message)
+        .join("; ")}`
+    );
+    this.name = "PolicyViolationError";
+    this.violations = violations;
+  }
+}
+
+export class BudgetExceededError extends BrianCoinbaseSDKError {
+  readonly violations: BudgetViolation[];
+
+  constructor(violations: BudgetViolation[]) {
+    super(
+      "BUDGET_EXCEEDED",
+      `Spend budget exceeded: ${violations
+        .map(
+          ({ token, spent, requested, limit }) =>
+            `${token} would reach ${spent + requested} of ${limit}`
+        )
+        .join("; ")}`
+    );
+    this.name = "BudgetExceededError";
+    this.violations = violations;
+  }
+}
+
+/**
+ * Thrown when a confirmation hook rejects. `result` is set when the
+ * rejection came after some steps had already been sent.
+ */
+export class UserRejectedError extends BrianCoinbaseSDKError {
+  readonly result?: TransactResult;
+
+  constructor(message: string, result?: TransactResult) {
+    super("USER_REJECTED", message);
+    this.name = "UserRejectedError";
+    this.result = result;
+  }
+}
+
+/**
+ * Thrown when a run is cancelled or times out. Steps already sent keep
+ * their status in `result`; a step still `pending` may land later.
+ */
+export class AbortError extends BrianCoinbaseSDKError {
+  readonly executionId: string;
+  readonly result?: TransactResult;
+
+  constructor(
+    message: string,
+    {
+      executionId,
+      result,
+      cause,
+    }: { executionId: string; result?: TransactResult; cause?: unknown }
+  ) {
+    super("ABORTED", message, { cause });
+    this.name = "AbortError";
+    this.executionId = executionId;
+    this.result = result;
+  }
+}
+
+/**
+ * Thrown when an ENS commitment cannot be registered: it never showed up
+ * on-chain, or it passed `maxCommitmentAge` before the registration.
+ */
+export class EnsCommitmentError extends BrianCoinbaseSDKError {
+  readonly commitment: string;
+
+  constructor(commitment: string, message: string) {
+    super("ENS_COMMITMENT_FAILED", message);
+    this.name = "EnsCommitmentError";
+    this.commitment = commitment;
+  }
+}
+
+/**
+ * Thrown under an `exact` approval policy when the amount the router call
+ * spends cannot be determined, so the approval cannot be capped.
+ */
+export class ApprovalCapError extends BrianCoinbaseSDKError {
+  readonly token: string;
+  readonly spender: string;
+
+  constructor(token: string, spender: string, message: string) {
+    super("APPROVAL_CAP_UNKNOWN", message);
+    this.name = "ApprovalCapError";
+    this.token = token;
+    this.spender = spender;
+  }
+}
+
+/**
+ * Thrown before anything is sent when an action calls a router whose
+ * calldata does not tell how much it spends, and Brian quoted no amount
+ * either, so policies and budgets cannot count it.
+ */
+export class UnknownSpendError extends BrianCoinbaseSDKError {
+  readonly action: string;
+  readonly contractAddress: string;
+
+  constructor(action: string, contractAddress: string, message: string) {
+    super("UNKNOWN_SPEND", message);
+    this.name = "UnknownSpendError";
+    this.action = action;
+    this.contractAddress = contractAddress;
+  }
+}
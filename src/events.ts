@@ -0,0 +1,111 @@
+import type { TransactionResult } from "@brian-ai/sdk";
+import { PlannedAction } from "./plan";
+import { TransactResult, StepResult } from "./result";
+
+export interface StepEvent {
+  executionId: string;
+  actionIndex: number;
+  stepIndex: number;
+  action: string;
+  step: StepResult;
+}
+
+/**
+ * Payload of every event emitted while quoting and executing prompts.
+ * `executionId` is missing for calls that only quote, like `prepare`.
+ */
+export interface TransactEvents {
+  "brian:request": {
+    executionId?: string;
+    prompt: string;
+    address: string;
+    chainId: number;
+  };
+  "brian:response": {
+    executionId?: string;
+    prompt: string;
+    results: TransactionResult[];
+    durationMs: number;
+  };
+  "brian:failed": {
+    executionId?: string;
+    prompt: string;
+    error: unknown;
+    durationMs: number;
+  };
+  "plan:decoded": { executionId?: string; actions: PlannedAction[] };
+  "execution:started": { executionId: string; actions: PlannedAction[] };
+  "execution:finished": {
+    executionId: string;
+    result: TransactResult;
+    error?: unknown;
+  };
+  "step:submitted": StepEvent & { transactionHash?: string };
+  "step:confirmed": StepEvent;
+  "step:skipped": StepEvent;
+  "step:failed": StepEvent & { error: unknown };
+  "ens:commitment-wait": { executionId?: string; waitMs: number };
+  retry: {
+    executionId?: string;
+    operation: "brian:transact" | "step:wait";
+    attempt: number;
+    delayMs: number;
+    error: unknown;
+  };
+}
+
+export type TransactEventName = keyof TransactEvents;
+
+export type TransactEventListener<E extends TransactEventName> = (
+  payload: TransactEvents[E]
+) => void;
+
+export class TransactEventEmitter {
+  private readonly listeners = new Map<
+    TransactEventName,
+    Set<TransactEventListener<any>>
+  >();
+
+  //returns a function that removes the listener again
+  on<E extends TransactEventName>(
+    event: E,
+    listener: TransactEventListener<E>
+  ): () => void {
+    if (!this.listeners.has(event)) {
+      this.listeners.set(event, new Set());
+    }
+    this.listeners.get(event)!.add(listener);
+    return () => this.off(event, listener);
+  }
+
+  once<E extends TransactEventName>(
+    event: E,
+    listener: TransactEventListener<E>
+  ): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      listener(payload);
+    });
+    return off;
+  }
+
+  off<E extends TransactEventName>(
+    event: E,
+    listener: TransactEventListener<E>
+  ): void {
+    this.listeners.get(event)?.delete(listener);
+  }
+
+  emit<E extends TransactEventName>(
+    event: E,
+    payload: TransactEvents[E]
+  ): void {
+    for (const listener of [...(this.listeners.get(event) ?? [])]) {
+      try {
+        listener(payload);
+      } catch {
+        //a failing listener must not interrupt transactions already in flight
+      }
+    }
+  }
+}
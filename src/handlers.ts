@@ -0,0 +1,348 @@
+import type { TransactionResult, TransactionStep } from "@brian-ai/sdk";
+import type { Wallet, WalletAddress } from "@coinbase/coinbase-sdk";
+import { Abi, erc20Abi } from "viem";
+import type { TransactEventEmitter } from "./events";
+import {
+  AAVE_V3_L1_POOL_ABI,
+  AAVE_V3_L2_POOL_ABI,
+  decodeFunctionDataForCdp,
+  ENS_REGISTRAR_CONTROLLER_ABI,
+  ENSO_ROUTER_ABI,
+  getAbiName,
+  LIDO_ABI,
+} from "./utils";
+import { cdpContractReader, ContractReader } from "./allowance";
+import {
+  CommitmentScheduler,
+  defaultCommitmentScheduler,
+  waitForCommitment,
+} from "./ens";
+import { UnknownSolverError, UnsupportedActionError } from "./errors";
+import { abiDetector } from "./selectors";
+import { solverAbiRegistry, SolverRouter } from "./solvers";
+
+export const NULL_ADDRESS = "0x0000000000000000000000000000000000000000";
+
+export type StepRole =
+  | "approve"
+  | "main"
+  | "revoke"
+  | "ens-commit"
+  | "ens-register";
+
+/**
+ * A single CDP operation decoded from a Brian transaction step.
+ */
+export type ActionStep =
+  | {
+      type: "transfer";
+      role: StepRole;
+      destination: `0x${string}`;
+      amount: bigint;
+      step: TransactionStep;
+    }
+  | {
+      type: "invoke";
+      role: StepRole;
+      contractAddress: `0x${string}`;
+      method: string;
+      abi: Abi;
+      abiName?: string;
+      args: Record<string, any>;
+      amount?: bigint;
+      step: TransactionStep;
+    };
+
+export interface ActionContext {
+  wallet: Wallet;
+  address: WalletAddress;
+  events: TransactEventEmitter;
+  //set while executing, missing when only quoting
+  executionId?: string;
+  //aborts with the run, long waits in hooks should stop on it
+  signal?: AbortSignal;
+}
+
+/**
+ * Turns a Brian action into the CDP operations that execute it.
+ */
+export interface ActionHandler {
+  decode(result: TransactionResult, context: ActionContext): ActionStep[];
+  //optional hook awaited before each decoded step is submitted, `steps`
+  //being every step `decode` returned for the action
+  beforeStep?(
+    step: ActionStep,
+    index: number,
+    context: ActionContext,
+    steps: ActionStep[]
+  ): Promise<void>;
+}
+
+export class ActionHandlerRegistry {
+  private readonly handlers = new Map<string, ActionHandler>();
+
+  constructor(handlers: Record<string, ActionHandler> = {}) {
+    for (const [action, handler] of Object.entries(handlers)) {
+      this.register(action, handler);
+    }
+  }
+
+  register(action: string, handler: ActionHandler): this {
+    this.handlers.set(action, handler);
+    return this;
+  }
+
+  unregister(action: string): boolean {
+    return this.handlers.delete(action);
+  }
+
+  get(action: string): ActionHandler | undefined {
+    return this.handlers.get(action);
+  }
+
+  has(action: string): boolean {
+    return this.handlers.has(action);
+  }
+
+  wrap(
+    action: string,
+    wrapper: (handler: ActionHandler) => ActionHandler
+  ): this {
+    const handler = this.handlers.get(action);
+    if (!handler) {
+      throw new UnsupportedActionError(
+        action,
+        `No handler registered for action "${action}"`
+      );
+    }
+    return this.register(action, wrapper(handler));
+  }
+
+  actions(): string[] {
+    return [...this.handlers.keys()];
+  }
+}
+
+export function decodeInvokeStep(
+  abi: Abi,
+  step: TransactionStep,
+  {
+    role = "main",
+    withValue = true,
+  }: { role?: StepRole; withValue?: boolean } = {}
+): ActionStep {
+  const [args, method] = decodeFunctionDataForCdp(abi, step.data);
+  return {
+    type: "invoke",
+    role,
+    contractAddress: step.to,
+    method,
+    abi,
+    abiName: getAbiName(abi),
+    args,
+    amount: withValue ? BigInt(step.value) : undefined,
+    step,
+  };
+}
+
+export function getSolverAbi(solver: string, router?: SolverRouter): Abi {
+  return solverAbiRegistry.resolve(solver, router);
+}
+
+//resolves the router ABI of the last step, which is the one calling it,
+//from its selector when neither the solver nor the router is registered
+function getResultSolverAbi({ solver, data }: TransactionResult): Abi {
+  const step = data.steps?.[data.steps.length - 1];
+  try {
+    return getSolverAbi(
+      solver,
+      step && { chainId: step.chainId, address: step.to }
+    );
+  } catch (error) {
+    const detection =
+      error instanceof UnknownSolverError && step
+        ? abiDetector.detect(step.data)
+        : undefined;
+    if (detection?.status !== "matched") {
+      throw error;
+    }
+    return detection.abi;
+  }
+}
+
+/**
+ * Builds a handler that sends the optional ERC-20 approval in `steps[0]`
+ * followed by the last step decoded against `resolveAbi(result)`.
+ */
+export function createApproveAndInvokeHandler(
+  resolveAbi: (result: TransactionResult) => Abi
+): ActionHandler {
+  return {
+    decode(result) {
+      const steps = result.data.steps ?? [];
+      //check if there are any steps
+      if (steps.length === 0) {
+        return [];
+      }
+      const decoded: ActionStep[] = [];
+      const approveNeeded = steps.length > 1;
+      if (approveNeeded) {
+        decoded.push(
+          decodeInvokeStep(erc20Abi, steps[0], {
+            role: "approve",
+            withValue: false,
+          })
+        );
+      }
+      decoded.push(
+        decodeInvokeStep(resolveAbi(result), steps[steps.length - 1])
+      );
+      return decoded;
+    },
+  };
+}
+
+/**
+ * Fallback for actions without a handler: sends every step Brian returned,
+ * each decoded against the ABI its selector points to.
+ */
+export const genericActionHandler: ActionHandler = {
+  decode(result) {
+    return (result.data.steps ?? []).map((txStep): ActionStep => {
+      if (txStep.data === "0x") {
+        return {
+          type: "transfer",
+          role: "main",
+          destination: txStep.to,
+          amount: BigInt(txStep.value),
+          step: txStep,
+        };
+      }
+      const { abi, abiName, functionName, args } = abiDetector.decode(
+        txStep.data
+      );
+      return {
+        type: "invoke",
+        role: functionName === "approve" ? "approve" : "main",
+        contractAddress: txStep.to,
+        method: functionName,
+        abi,
+        abiName,
+        args,
+        amount: BigInt(txStep.value),
+        step: txStep,
+      };
+    });
+  },
+};
+
+export const transferHandler: ActionHandler = {
+  decode(result) {
+    const txStep = result.data.steps?.[0];
+    if (!txStep) {
+      return [];
+    }
+    if (result.data.fromToken?.address === NULL_ADDRESS) {
+      //generate tx for ETH
+      return [
+        {
+          type: "transfer",
+          role: "main",
+          destination: txStep.to,
+          amount: BigInt(txStep.value),
+          step: txStep,
+        },
+      ];
+    }
+    return [decodeInvokeStep(erc20Abi, txStep, { withValue: false })];
+  },
+};
+
+export const swapHandler = createApproveAndInvokeHandler(getResultSolverAbi);
+
+export const bridgeHandler = createApproveAndInvokeHandler(getResultSolverAbi);
+
+export const depositHandler = createApproveAndInvokeHandler(({ solver }) =>
+  solver === "Enso" ? ENSO_ROUTER_ABI : LIDO_ABI
+);
+
+export const withdrawHandler = createApproveAndInvokeHandler(
+  () => ENSO_ROUTER_ABI
+);
+
+export const aaveHandler = createApproveAndInvokeHandler(({ data }) =>
+  data.steps![data.steps!.length - 1].chainId === 1
+    ? AAVE_V3_L1_POOL_ABI
+    : AAVE_V3_L2_POOL_ABI
+);
+
+/**
+ * Sends the commitment, then waits until the registrar controller considers
+ * it old enough before sending the registration.
+ */
+export function createEnsRegistrationHandler({
+  reader = cdpContractReader,
+  scheduler = defaultCommitmentScheduler,
+}: {
+  reader?: ContractReader;
+  scheduler?: CommitmentScheduler;
+} = {}): ActionHandler {
+  return {
+    decode(result) {
+      const steps = result.data.steps ?? [];
+      if (steps.length === 0) {
+        return [];
+      }
+      //commitment first, then registration
+      const roles: StepRole[] = ["ens-commit", "ens-register"];
+      return steps
+        .slice(0, 2)
+        .map((step, index) =>
+          decodeInvokeStep(ENS_REGISTRAR_CONTROLLER_ABI, step, {
+            role: roles[index],
+          })
+        );
+    },
+    async beforeStep(_step, index, context, steps) {
+      const commit = steps[0];
+      if (index !== 1 || commit?.type !== "invoke") {
+        return;
+      }
+      const { wallet, events, executionId, signal } = context;
+      await waitForCommitment({
+        reader,
+        networkId: wallet.getNetworkId(),
+        controller: commit.contractAddress,
+        commitment: commit.args.commitment,
+        scheduler,
+        signal,
+        onWait: (waitMs) =>
+          events.emit("ens:commitment-wait", { executionId, waitMs }),
+      });
+    },
+  };
+}
+
+export const ensRegistrationHandler = createEnsRegistrationHandler();
+
+export const ensRenewalHandler: ActionHandler = {
+  decode(result) {
+    const txStep = result.data.steps?.[0];
+    if (!txStep) {
+      return [];
+    }
+    return [decodeInvokeStep(ENS_REGISTRAR_CONTROLLER_ABI, txStep)];
+  },
+};
+
+export const defaultActionHandlers: Record<string, ActionHandler> = {
+  transfer: transferHandler,
+  swap: swapHandler,
+  bridge: bridgeHandler,
+  deposit: depositHandler,
+  withdraw: withdrawHandler,
+  "AAVE Borrow": aaveHandler,
+  "AAVE Repay": aaveHandler,
+  "ENS Registration": ensRegistrationHandler,
+  "ENS Renewal": ensRenewalHandler,
+};
@@ -0,0 +1,66 @@
+import { mkdir, readFile, rm, writeFile } from "fs/promises";
+import { join } from "path";
+
+export interface IdempotencyRecord {
+  key: string;
+  executionId: string;
+  createdAt: string;
+}
+
+export interface IdempotencyStore {
+  //stores the record unless its key is taken, returning the existing record
+  claim(record: IdempotencyRecord): Promise<IdempotencyRecord | undefined>;
+  release(key: string): Promise<void>;
+}
+
+export class InMemoryIdempotencyStore implements IdempotencyStore {
+  private readonly records = new Map<string, IdempotencyRecord>();
+
+  async claim(
+    record: IdempotencyRecord
+  ): Promise<IdempotencyRecord | undefined> {
+    const existing = this.records.get(record.key);
+    if (existing) {
+      return { ...existing };
+    }
+    this.records.set(record.key, { ...record });
+    return undefined;
+  }
+
+  async release(key: string): Promise<void> {
+    this.records.delete(key);
+  }
+}
+
+/**
+ * Stores every key as `<directory>/<key>.json`, created exclusively so two
+ * processes sharing the directory cannot claim the same key.
+ */
+export class FileIdempotencyStore implements IdempotencyStore {
+  constructor(private readonly directory: string) {}
+
+  async claim(
+    record: IdempotencyRecord
+  ): Promise<IdempotencyRecord | undefined> {
+    await mkdir(this.directory, { recursive: true });
+    try {
+      await writeFile(this.pathFor(record.key), JSON.stringify(record), {
+        flag: "wx",
+      });
+      return undefined;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "EEXIST") {
+        throw error;
+      }
+    }
+    return JSON.parse(await readFile(this.pathFor(record.key), "utf8"));
+  }
+
+  async release(key: string): Promise<void> {
+    await rm(this.pathFor(key), { force: true });
+  }
+
+  private pathFor(key: string): string {
+    return join(this.directory, `${encodeURIComponent(key)}.json`);
+  }
+}
@@ -1 +1,23 @@
 export * from "./sdk";
+export * from "./handlers";
+export * from "./utils";
+export * from "./plan";
+export * from "./chains";
+export * from "./result";
+export * from "./errors";
+export * from "./checkpoints";
+export * from "./allowance";
+export * from "./approvals";
+export * from "./events";
+export * from "./stream";
+export * from "./policy";
+export * from "./spend";
+export * from "./budgets";
+export * from "./journal";
+export * from "./idempotency";
+export * from "./retry";
+export * from "./abort";
+export * from "./ens";
+export * from "./solvers";
+export * from "./selectors";
+export * from "./settlement";
@@ -0,0 +1,105 @@
+import { appendFile, mkdir, readFile } from "fs/promises";
+import { dirname } from "path";
+import { ExecutionStatus } from "./checkpoints";
+import { ExecutionPlan } from "./plan";
+import { TransactResult } from "./result";
+
+export type JournalEntryType =
+  | "execution:started"
+  | "step:submitted"
+  | "execution:finished";
+
+/**
+ * One append-only audit record. Every entry of an execution carries the
+ * wallet, address and action names so it can be queried on its own.
+ */
+export interface JournalEntry {
+  type: JournalEntryType;
+  executionId: string;
+  walletId: string;
+  address: string;
+  actions: string[];
+  recordedAt: string;
+  //`execution:started`: the prompt, raw Brian response and decoded plan
+  plan?: ExecutionPlan;
+  //`execution:started` of a run that failed before it had a plan
+  prompt?: string;
+  //`step:submitted`
+  actionIndex?: number;
+  stepIndex?: number;
+  transactionHash?: string;
+  //`execution:finished`
+  status?: ExecutionStatus;
+  result?: TransactResult;
+  error?: string;
+}
+
+export interface JournalQuery {
+  walletId?: string;
+  executionId?: string;
+  //entries of executions containing this Brian action
+  action?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export interface ExecutionJournal {
+  append(entry: JournalEntry): Promise<void>;
+  query(query?: JournalQuery): Promise<JournalEntry[]>;
+}
+
+function matchesQuery(entry: JournalEntry, query: JournalQuery): boolean {
+  const recordedAt = Date.parse(entry.recordedAt);
+  return (
+    (query.walletId === undefined || entry.walletId === query.walletId) &&
+    (query.executionId === undefined ||
+      entry.executionId === query.executionId) &&
+    (query.action === undefined || entry.actions.includes(query.action)) &&
+    (query.from === undefined || recordedAt >= +query.from) &&
+    (query.to === undefined || recordedAt <= +query.to)
+  );
+}
+
+export class InMemoryExecutionJournal implements ExecutionJournal {
+  private readonly entries: JournalEntry[] = [];
+
+  async append(entry: JournalEntry): Promise<void> {
+    this.entries.push(structuredClone(entry));
+  }
+
+  async query(query: JournalQuery = {}): Promise<JournalEntry[]> {
+    return this.entries
+      .filter((entry) => matchesQuery(entry, query))
+      .map((entry) => structuredClone(entry));
+  }
+}
+
+/**
+ * Appends every entry as one JSON line to `filePath`. Existing lines are
+ * never rewritten.
+ */
+export class FileExecutionJournal implements ExecutionJournal {
+  constructor(private readonly filePath: string) {}
+
+  async append(entry: JournalEntry): Promise<void> {
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await appendFile(this.filePath, `${JSON.stringify(entry)}\n`);
+  }
+
+  async query(query: JournalQuery = {}): Promise<JournalEntry[]> {
+    let content: string;
+    try {
+      content = await readFile(this.filePath, "utf8");
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return [];
+      }
+      throw error;
+    }
+    return content
+      .split("\n")
+      .filter((line) => line.trim() !== "")
+      .map((line) => JSON.parse(line) as JournalEntry)
+      .filter((entry) => matchesQuery(entry, query));
+  }
+}
@@ -0,0 +1,100 @@
+import type { TransactionResult } from "@brian-ai/sdk";
+import { ActionStep, StepRole } from "./handlers";
+
+/**
+ * Human-reviewable view of a decoded step. Nothing in it is sent.
+ */
+export interface PlannedStep {
+  type: "transfer" | "invoke";
+  role: StepRole;
+  chainId: number;
+  to: `0x${string}`;
+  method?: string;
+  abiName?: string;
+  args?: Record<string, any>;
+  value: string;
+}
+
+export interface PlannedAction {
+  action: string;
+  solver: string;
+  description: string;
+  //set when no handler supports the action: its steps are either skipped or
+  //decoded by ABI auto-detection
+  unsupported?: "skipped" | "generic";
+  steps: PlannedStep[];
+}
+
+export const EXECUTION_PLAN_VERSION = 1;
+
+/**
+ * JSON-serializable result of `prepare`, executable later through `execute`
+ * by the same wallet and address.
+ */
+export interface ExecutionPlan {
+  version: typeof EXECUTION_PLAN_VERSION;
+  prompt: string;
+  walletId: string;
+  address: string;
+  chainId: number;
+  createdAt: string;
+  results: TransactionResult[];
+  actions: PlannedAction[];
+}
+
+/**
+ * Asked to approve a plan before its first transaction is sent. Resolving
+ * to `false` aborts the run with a `UserRejectedError`.
+ */
+export type ConfirmHandler = (plan: ExecutionPlan) => Promise<boolean>;
+
+export interface StepConfirmRequest {
+  plan: ExecutionPlan;
+  action: string;
+  actionIndex: number;
+  stepIndex: number;
+  step: PlannedStep;
+}
+
+/**
+ * Asked to approve each step of a multi-step action right before it is sent.
+ */
+export type StepConfirmHandler = (
+  request: StepConfirmRequest
+) => Promise<boolean>;
+
+export function toPlannedStep(step: ActionStep): PlannedStep {
+  if (step.type === "transfer") {
+    return {
+      type: "transfer",
+      role: step.role,
+      chainId: step.step.chainId,
+      to: step.destination,
+      value: step.amount.toString(),
+    };
+  }
+  return {
+    type: "invoke",
+    role: step.role,
+    chainId: step.step.chainId,
+    to: step.contractAddress,
+    method: step.method,
+    abiName: step.abiName,
+    args: step.args,
+    value: (step.amount ?? 0n).toString(),
+  };
+}
+
+export function toPlannedAction(
+  result: TransactionResult,
+  steps: ActionStep[],
+  unsupported?: PlannedAction["unsupported"]
+): PlannedAction {
+  return {
+    action: result.action,
+    solver: result.solver,
+    description: result.data.description,
+    unsupported,
+    steps: steps.map(toPlannedStep),
+  };
+}
@@ -0,0 +1,151 @@
+import type { TransactionResult } from "@brian-ai/sdk";
+import { ActionStep, NULL_ADDRESS } from "./handlers";
+import { getPulledAmounts, getTokenSpend } from "./spend";
+
+/**
+ * Rules checked against the decoded steps before anything is sent. Every
+ * rule is optional; addresses are compared case-insensitively and the
+ * native token is `NULL_ADDRESS`.
+ */
+export interface TransactionPolicy {
+  //contracts each Brian action may call, keyed by action name
+  allowedContracts?: Record<string, string[]>;
+  //tokens an action may spend or receive
+  allowedTokens?: string[];
+  //maximum native value of a single step, in wei
+  maxNativeValue?: bigint | string;
+  //maximum amount of a token a single action may spend, in base units
+  maxTokenAmounts?: Record<string, bigint | string>;
+  //addresses that may never receive funds
+  blockedRecipients?: string[];
+}
+
+export type PolicyRule = keyof TransactionPolicy;
+
+export interface PolicyViolation {
+  rule: PolicyRule;
+  action: string;
+  actionIndex: number;
+  stepIndex?: number;
+  message: string;
+}
+
+const includesAddress = (addresses: string[], address: string) =>
+  addresses.some((item) => item.toLowerCase() === address.toLowerCase());
+
+function getRecipients(result: TransactionResult, step: ActionStep): string[] {
+  if (step.type === "transfer") {
+    return [step.destination];
+  }
+  //transfer(recipient, amount): the recipient is the first argument
+  const [recipient] = Object.values(step.args);
+  if (step.method === "transfer" && typeof recipient === "string") {
+    return [recipient];
+  }
+  return step.role === "main" && result.data.toAddress
+    ? [result.data.toAddress]
+    : [];
+}
+
+export function evaluatePolicy(
+  policy: TransactionPolicy,
+  actions: { result: TransactionResult; steps: ActionStep[] }[]
+): PolicyViolation[] {
+  const violations: PolicyViolation[] = [];
+
+  for (const [actionIndex, { result, steps }] of actions.entries()) {
+    const { action, data } = result;
+    const violation = (
+      rule: PolicyRule,
+      message: string,
+      stepIndex?: number
+    ) => violations.push({ rule, action, actionIndex, stepIndex, message });
+
+    if (policy.allowedTokens) {
+      const tokens = [data.fromToken?.address, data.toToken?.address];
+      for (const step of steps) {
+        if (step.type === "transfer" || step.amount) {
+          tokens.push(NULL_ADDRESS);
+        }
+        if (
+          step.type === "invoke" &&
+          (step.method === "approve" || step.method === "transfer")
+        ) {
+          tokens.push(step.contractAddress);
+        }
+        //what a router call pulls is read from its calldata, whatever Brian
+        //quoted and whether or not an approval comes with it
+        if (step.role === "main") {
+          for (const [token] of getPulledAmounts(step) ?? []) {
+            tokens.push(token as `0x${string}`);
+          }
+        }
+      }
+      //one violation per token, however its address is cased
+      const distinct = new Map(
+        tokens
+          .filter((token): token is `0x${string}` => !!token)
+          .map((token) => [token.toLowerCase(), token])
+      );
+      for (const token of distinct.values()) {
+        if (!includesAddress(policy.allowedTokens, token)) {
+          violation("allowedTokens", `Token ${token} is not allowed`);
+        }
+      }
+    }
+
+    const maxTokenAmounts = Object.entries(policy.maxTokenAmounts ?? {});
+    if (maxTokenAmounts.length > 0) {
+      const spend = getTokenSpend(result, steps);
+      for (const [token, max] of maxTokenAmounts) {
+        const spent = spend.get(token.toLowerCase()) ?? 0n;
+        if (spent > BigInt(max)) {
+          violation(
+            "maxTokenAmounts",
+            `Spends ${spent} of token ${token}, above the maximum of ${max}`
+          );
+        }
+      }
+    }
+
+    for (const [index, step] of steps.entries()) {
+      const contracts = policy.allowedContracts?.[action];
+      if (
+        contracts &&
+        step.type === "invoke" &&
+        !includesAddress(contracts, step.contractAddress)
+      ) {
+        violation(
+          "allowedContracts",
+          `Contract ${step.contractAddress} is not allowed for ${action}`,
+          index
+        );
+      }
+
+      const value = step.type === "transfer" ? step.amount : step.amount ?? 0n;
+      if (
+        policy.maxNativeValue !== undefined &&
+        value > BigInt(policy.maxNativeValue)
+      ) {
+        violation(
+          "maxNativeValue",
+          `Sends ${value} wei, above the maximum of ${policy.maxNativeValue}`,
+          index
+        );
+      }
+
+      if (policy.blockedRecipients) {
+        for (const recipient of getRecipients(result, step)) {
+          if (includesAddress(policy.blockedRecipients, recipient)) {
+            violation(
+              "blockedRecipients",
+              `Recipient ${recipient} is blocked`,
+              index
+            );
+          }
+        }
+      }
+    }
+  }
+  return violations;
+}
@@ -0,0 +1,45 @@
+import type { TransactionResult } from "@brian-ai/sdk";
+import type { ContractInvocation, Transfer } from "@coinbase/coinbase-sdk";
+import { PlannedAction, PlannedStep } from "./plan";
+
+export type StepStatus = "pending" | "complete" | "failed" | "skipped";
+
+export interface StepResult extends PlannedStep {
+  status: StepStatus;
+  transactionHash?: string;
+  //why a step was not sent, e.g. an approval the allowance already covers
+  skipReason?: string;
+  startedAt: string;
+  finishedAt?: string;
+  durationMs?: number;
+  error?: string;
+  transaction?: Transfer | ContractInvocation;
+}
+
+export interface ActionResult extends Omit<PlannedAction, "steps"> {
+  status: StepStatus;
+  steps: StepResult[];
+  //Brian's data for actions skipped as unsupported
+  raw?: TransactionResult;
+}
+
+/**
+ * Outcome of `transact`/`execute`, one entry per Brian action.
+ */
+export interface TransactResult {
+  //pass to `resume` to retry the steps that did not complete
+  executionId: string;
+  actions: ActionResult[];
+}
+
+/**
+ * Flattens a result into the `(Transfer | ContractInvocation)[]` that
+ * `transact` used to return.
+ */
+export function toTransactionList(
+  result: TransactResult
+): (Transfer | ContractInvocation)[] {
+  return result.actions.flatMap(({ steps }) =>
+    steps.flatMap(({ transaction }) => (transaction ? [transaction] : []))
+  );
+}
@@ -0,0 +1,98 @@
+import { sleep } from "./abort";
+
+/**
+ * Retry settings for operations that are safe to repeat: Brian quoting and
+ * polling the status of a submitted transaction. Submissions are never
+ * retried, as that could broadcast the same transaction twice.
+ */
+export interface RetryPolicy {
+  //total attempts, including the first one
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  //decides which errors are retried, `isRetryableError` by default
+  isRetryable?: (error: unknown) => boolean;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10000,
+};
+
+const RETRYABLE_ERROR_NAMES = [
+  //Brian API
+  "RateLimitError",
+  "InternalServerError",
+  //CDP `wait` and request timeouts
+  "TimeoutError",
+];
+
+const RETRYABLE_NETWORK_CODES = [
+  "ECONNRESET",
+  "ECONNREFUSED",
+  "ETIMEDOUT",
+  "EAI_AGAIN",
+  "EPIPE",
+  "UND_ERR_SOCKET",
+];
+
+/**
+ * Treats rate limits, 5xx responses, timeouts and dropped connections as
+ * transient.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof Error)) {
+    return false;
+  }
+  if (RETRYABLE_ERROR_NAMES.includes(error.name)) {
+    return true;
+  }
+  //CDP API errors, where a missing status means no response arrived
+  if ("httpCode" in error) {
+    const httpCode = error.httpCode as number | null;
+    return httpCode === null || httpCode === 429 || httpCode >= 500;
+  }
+  const code =
+    (error as NodeJS.ErrnoException).code ??
+    (error.cause as NodeJS.ErrnoException | undefined)?.code;
+  return code !== undefined && RETRYABLE_NETWORK_CODES.includes(code);
+}
+
+//exponential backoff with full jitter, `attempt` starting at 1
+export function getRetryDelay(
+  policy: RetryPolicy,
+  attempt: number,
+  random: () => number = Math.random
+): number {
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1)
+  );
+  return Math.round(random() * ceiling);
+}
+
+export async function withRetry<T>(
+  policy: RetryPolicy,
+  operation: () => Promise<T>,
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void,
+  signal?: AbortSignal
+): Promise<T> {
+  const isRetryable = policy.isRetryable ?? isRetryableError;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (
+        signal?.aborted ||
+        attempt >= policy.maxAttempts ||
+        !isRetryable(error)
+      ) {
+        throw error;
+      }
+      const delayMs = getRetryDelay(policy, attempt);
+      onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+}
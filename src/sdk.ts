@@ -1,4 +1,5 @@
-import { BrianSDK } from "@brian-ai/sdk";
+import { randomUUID } from "crypto";
+import { BrianSDK, TransactionResult } from "@brian-ai/sdk";
 import {
   Coinbase,
   ContractInvocation,
@@ -9,17 +10,70 @@ import {
   WalletCreateOptions,
   WalletData,
 } from "@coinbase/coinbase-sdk";
-import { erc20Abi } from "viem";
 import {
-  AAVE_V3_L1_POOL_ABI,
-  AAVE_V3_L2_POOL_ABI,
-  BUNGEE_ROUTER_ABI,
-  decodeFunctionDataForCdp,
-  ENS_REGISTRAR_CONTROLLER_ABI,
-  ENSO_ROUTER_ABI,
-  LIDO_ABI,
-  LIFI_ROUTER_ABI,
-} from "./utils";
+  ActionContext,
+  ActionHandler,
+  ActionHandlerRegistry,
+  ActionStep,
+  createEnsRegistrationHandler,
+  defaultActionHandlers,
+  genericActionHandler,
+} from "./handlers";
+import { getChainIdForNetwork } from "./chains";
+import {
+  ConfirmHandler,
+  EXECUTION_PLAN_VERSION,
+  ExecutionPlan,
+  PlannedAction,
+  StepConfirmHandler,
+  toPlannedAction,
+  toPlannedStep,
+} from "./plan";
+import { StepResult, TransactResult } from "./result";
+import {
+  AbortError,
+  BrianApiError,
+  BudgetExceededError,
+  ConfigurationError,
+  ExecutionFailedError,
+  ExecutionInProgressError,
+  ExecutionNotFoundError,
+  InvalidPlanError,
+  NoWalletError,
+  PolicyViolationError,
+  StaleExecutionError,
+  StepExecutionError,
+  UnsupportedActionError,
+  UserRejectedError,
+  WalletConflictError,
+  WrongNetworkError,
+} from "./errors";
+import {
+  CheckpointStore,
+  ExecutionStatus,
+  InMemoryCheckpointStore,
+  toCheckpointResult,
+} from "./checkpoints";
+import {
+  cdpContractReader,
+  ContractReader,
+  getSufficientAllowance,
+} from "./allowance";
+import { applyApprovalPolicy, ApprovalPolicy } from "./approvals";
+import { TransactEventEmitter } from "./events";
+import { ExecutionJournal, JournalEntry } from "./journal";
+import { IdempotencyStore, InMemoryIdempotencyStore } from "./idempotency";
+import { DEFAULT_RETRY_POLICY, RetryPolicy, withRetry } from "./retry";
+import { combineSignals, raceAbort } from "./abort";
+import { CommitmentScheduler } from "./ens";
+import { streamExecution, TransactStreamRecord } from "./stream";
+import { evaluatePolicy, TransactionPolicy } from "./policy";
+import { BudgetTracker } from "./budgets";
+import { getTokenSpend } from "./spend";
+import {
+  cdpTransactionStatusReader,
+  TransactionStatusReader,
+} from "./settlement";
 
 export interface BrianCoinbaseSDKOptions {
   brianApiKey: string;
@@ -32,13 +86,156 @@ export interface BrianCoinbaseSDKOptions {
     debugging?: boolean;
     basePath?: string;
   };
+  actionHandlers?: Record<string, ActionHandler>;
+  checkpointStore?: CheckpointStore;
+  contractReader?: ContractReader;
+  //skip approvals the current allowance already covers, true by default
+  skipRedundantApprovals?: boolean;
+  approvalPolicy?: ApprovalPolicy;
+  policy?: TransactionPolicy;
+  budgetTracker?: BudgetTracker;
+  onConfirm?: ConfirmHandler;
+  onConfirmStep?: StepConfirmHandler;
+  journal?: ExecutionJournal;
+  idempotencyStore?: IdempotencyStore;
+  retryPolicy?: RetryPolicy;
+  onUnsupportedAction?: UnsupportedActionMode;
+  ensCommitmentScheduler?: CommitmentScheduler;
+  transactionStatusReader?: TransactionStatusReader;
+}
+
+/**
+ * What to do with Brian actions no handler supports: fail before sending
+ * anything, report them as skipped in the result, or send their steps
+ * decoded by ABI auto-detection.
+ */
+export type UnsupportedActionMode =
+  | "throw"
+  | "skip-and-report"
+  | "fallback-generic";
+
+export interface CancellationOptions {
+  //stops the run before it sends another step
+  signal?: AbortSignal;
+  //how long to wait for each submitted step to land
+  stepTimeoutMs?: number;
+  //deadline for the whole call, quoting included
+  totalTimeoutMs?: number;
+}
+
+export interface TransactOptions extends CancellationOptions {
+  //registry key of the wallet to use instead of the current one
+  walletId?: string;
+  //wallet address to quote and execute from instead of the default one
+  addressId?: string;
+  //overrides the chain id derived from the wallet's network
+  chainId?: number;
+  //override the confirmation hooks configured on the SDK
+  onConfirm?: ConfirmHandler;
+  onConfirmStep?: StepConfirmHandler;
+  //repeated calls with the same key return the first call's result
+  idempotencyKey?: string;
+}
+
+export interface ExecuteOptions extends CancellationOptions {
+  walletId?: string;
+  onConfirm?: ConfirmHandler;
+  onConfirmStep?: StepConfirmHandler;
+}
+
+export interface WalletRegistryEntry {
+  walletId: string;
+  wallet: Wallet;
+}
+
+export interface ResumeOptions extends CancellationOptions {
+  //registry key of the wallet to resume on, defaults to the original one
+  walletId?: string;
+  //quotes older than this are considered stale and are not resumed
+  maxAgeMs?: number;
+  onConfirm?: ConfirmHandler;
+  onConfirmStep?: StepConfirmHandler;
+}
+
+interface DecodedAction {
+  result: TransactionResult;
+  //missing for unsupported actions that are skipped
+  handler?: ActionHandler;
+  steps: ActionStep[];
+  unsupported?: PlannedAction["unsupported"];
+}
+
+interface ExecutionRun {
+  executionId: string;
+  walletId?: string;
+  plan: ExecutionPlan;
+  previous?: TransactResult;
+  signal?: AbortSignal;
+  stepTimeoutMs?: number;
+  onConfirm?: ConfirmHandler;
+  onConfirmStep?: StepConfirmHandler;
+}
+
+const DEFAULT_RESUME_MAX_AGE_MS = 10 * 60 * 1000;
+
+//steps a run has not reached yet keep what the earlier run recorded, so no
+//transaction hash is ever lost from the checkpoint
+function withPreviousSteps(
+  result: TransactResult,
+  previous: TransactResult | undefined
+): TransactResult {
+  if (!previous) {
+    return result;
+  }
+  return {
+    ...result,
+    actions: result.actions.map((action, actionIndex) => ({
+      ...action,
+      steps: [
+        ...action.steps,
+        ...(previous.actions[actionIndex]?.steps.slice(action.steps.length) ??
+          []),
+      ],
+    })),
+  };
 }
 
-const NULL_ADDRESS = "0x0000000000000000000000000000000000000000";
+//an earlier run already recorded what the action spent once its main step
+//confirmed
+function isSpendRecorded(
+  previous: TransactResult | undefined,
+  actionIndex: number
+): boolean {
+  const action = previous?.actions[actionIndex];
+  return (
+    action?.status === "complete" ||
+    !!action?.steps.some(
+      ({ role, status }) => role === "main" && status === "complete"
+    )
+  );
+}
 
 export class BrianCoinbaseSDK {
   readonly brianSDK;
+  readonly actionHandlers: ActionHandlerRegistry;
+  readonly checkpointStore: CheckpointStore;
+  readonly contractReader: ContractReader;
+  readonly skipRedundantApprovals: boolean;
+  readonly approvalPolicy: ApprovalPolicy;
+  readonly events = new TransactEventEmitter();
+  readonly policy?: TransactionPolicy;
+  readonly budgetTracker?: BudgetTracker;
+  readonly onConfirm?: ConfirmHandler;
+  readonly onConfirmStep?: StepConfirmHandler;
+  readonly journal?: ExecutionJournal;
+  readonly idempotencyStore: IdempotencyStore;
+  readonly retryPolicy: RetryPolicy;
+  readonly onUnsupportedAction: UnsupportedActionMode;
+  readonly transactionStatusReader: TransactionStatusReader;
   currentWallet: Wallet | null = null;
+  private readonly wallets = new Map<string, Wallet>();
+  //executions running in this instance, which `resume` must not run again
+  private readonly activeExecutions = new Set<string>();
 
   constructor({
     brianApiKey,
@@ -47,16 +244,52 @@ export class BrianCoinbaseSDK {
     coinbaseApiKeySecret,
     coinbaseFilePath,
     coinbaseOptions,
+    actionHandlers,
+    checkpointStore,
+    contractReader,
+    skipRedundantApprovals = true,
+    approvalPolicy = "asProvided",
+    policy,
+    budgetTracker,
+    onConfirm,
+    onConfirmStep,
+    journal,
+    idempotencyStore = new InMemoryIdempotencyStore(),
+    retryPolicy = DEFAULT_RETRY_POLICY,
+    onUnsupportedAction = "skip-and-report",
+    ensCommitmentScheduler,
+    transactionStatusReader = cdpTransactionStatusReader,
   }: BrianCoinbaseSDKOptions) {
     if (!brianApiKey) {
-      throw new Error("Brian API key is required");
+      throw new ConfigurationError("Brian API key is required");
     }
     if ((!coinbaseApiKeyName || !coinbaseApiKeySecret) && !coinbaseFilePath) {
-      throw new Error(
+      throw new ConfigurationError(
         "Coinbase API key name + secret, or file path are required"
       );
     }
     this.brianSDK = new BrianSDK({ apiKey: brianApiKey, apiUrl: brianApiUrl });
+    this.checkpointStore = checkpointStore ?? new InMemoryCheckpointStore();
+    this.contractReader = contractReader ?? cdpContractReader;
+    this.actionHandlers = new ActionHandlerRegistry({
+      ...defaultActionHandlers,
+      "ENS Registration": createEnsRegistrationHandler({
+        reader: this.contractReader,
+        scheduler: ensCommitmentScheduler,
+      }),
+      ...actionHandlers,
+    });
+    this.skipRedundantApprovals = skipRedundantApprovals;
+    this.approvalPolicy = approvalPolicy;
+    this.policy = policy;
+    this.budgetTracker = budgetTracker;
+    this.onConfirm = onConfirm;
+    this.onConfirmStep = onConfirmStep;
+    this.journal = journal;
+    this.idempotencyStore = idempotencyStore;
+    this.retryPolicy = retryPolicy;
+    this.onUnsupportedAction = onUnsupportedAction;
+    this.transactionStatusReader = transactionStatusReader;
     if (coinbaseApiKeyName && coinbaseApiKeySecret) {
       Coinbase.configure({
         apiKeyName: coinbaseApiKeyName,
@@ -75,430 +308,1085 @@ export class BrianCoinbaseSDK {
     return this.currentWallet;
   }
 
-  async createWallet({
-    networkId,
-    timeoutSeconds,
-    intervalSeconds,
-  }: WalletCreateOptions): Promise<Wallet> {
-    this.currentWallet = await Wallet.create({
+  getWallet(walletId?: string): Wallet {
+    if (walletId === undefined) {
+      if (!this.currentWallet) {
+        throw new NoWalletError("No wallet created");
+      }
+      return this.currentWallet;
+    }
+    const wallet = this.wallets.get(walletId);
+    if (!wallet) {
+      throw new NoWalletError(`No wallet registered as ${walletId}`, walletId);
+    }
+    return wallet;
+  }
+
+  useWallet(walletId: string): Wallet {
+    this.currentWallet = this.getWallet(walletId);
+    return this.currentWallet;
+  }
+
+  listWallets(): WalletRegistryEntry[] {
+    return [...this.wallets.entries()].map(([walletId, wallet]) => ({
+      walletId,
+      wallet,
+    }));
+  }
+
+  removeWallet(walletId: string): boolean {
+    const wallet = this.wallets.get(walletId);
+    if (wallet && wallet === this.currentWallet) {
+      this.currentWallet = null;
+    }
+    return this.wallets.delete(walletId);
+  }
+
+  async createWallet(
+    { networkId, timeoutSeconds, intervalSeconds }: WalletCreateOptions,
+    label?: string
+  ): Promise<Wallet> {
+    //a new wallet can take no key that is already bound
+    if (label !== undefined) {
+      this.checkWalletKey(label);
+    }
+    const wallet = await Wallet.create({
       networkId,
       timeoutSeconds,
       intervalSeconds,
     });
-    return this.currentWallet;
+    return this.registerWallet(wallet, label);
   }
 
-  async importWallet(walletData: WalletData): Promise<Wallet> {
-    this.currentWallet = await Wallet.import(walletData);
-    return this.currentWallet;
+  async importWallet(walletData: WalletData, label?: string): Promise<Wallet> {
+    //refused before the import, so a taken key costs no CDP call
+    const key = label ?? walletData.walletId;
+    if (key !== undefined) {
+      this.checkWalletKey(key, walletData.walletId);
+    }
+    const wallet = await Wallet.import(walletData);
+    return this.registerWallet(wallet, label);
+  }
+
+  exportWallet(walletId?: string): WalletData {
+    return this.getWallet(walletId).export();
+  }
+
+  saveWallet__insecure(
+    filePath: string,
+    encrypt: boolean = true,
+    walletId?: string
+  ): string {
+    return this.getWallet(walletId).saveSeed(filePath, encrypt);
+  }
+
+  async getDefaultAddress(walletId?: string): Promise<WalletAddress> {
+    return this.getWallet(walletId).getDefaultAddress();
+  }
+
+  async getAddress(walletId?: string): Promise<string> {
+    const walletAddress = await this.getDefaultAddress(walletId);
+    return walletAddress?.getId();
+  }
+
+  async createAddress(walletId?: string): Promise<WalletAddress> {
+    //the CDP wallet always hands back a WalletAddress, typed as its base class
+    return (await this.getWallet(walletId).createAddress()) as WalletAddress;
   }
 
-  exportWallet(): WalletData {
-    if (!this.currentWallet) {
-      throw new Error("No wallet created");
+  async listAddresses(walletId?: string): Promise<WalletAddress[]> {
+    return this.getWallet(walletId).listAddresses();
+  }
+
+  async fundWallet(walletId?: string): Promise<FaucetTransaction> {
+    const wallet = this.getWallet(walletId);
+    if (wallet.getNetworkId() !== "base-sepolia") {
+      throw new WrongNetworkError(
+        wallet.getNetworkId(),
+        "Wallet is not on Sepolia"
+      );
     }
-    return this.currentWallet.export();
+    return await wallet.faucet();
+  }
+
+  async plan(
+    prompt: string,
+    options: TransactOptions = {}
+  ): Promise<PlannedAction[]> {
+    const { actions } = await this.prepare(prompt, options);
+    return actions;
+  }
+
+  async prepare(
+    prompt: string,
+    options: TransactOptions = {}
+  ): Promise<ExecutionPlan> {
+    const context = await this.getActionContext(
+      options.walletId,
+      options.addressId
+    );
+    const { plan } = await this.createPlan(prompt, context, options);
+    return plan;
+  }
+
+  async execute(
+    plan: ExecutionPlan,
+    options: ExecuteOptions = {}
+  ): Promise<TransactResult> {
+    const executionId = randomUUID();
+    return this.whileActive(executionId, async () => {
+      const { context, actions } = await this.loadPlan(
+        plan,
+        options.walletId,
+        executionId
+      );
+      return this.executeActions(context, actions, {
+        executionId,
+        walletId: options.walletId,
+        plan,
+        signal: combineSignals([options.signal], options.totalTimeoutMs),
+        stepTimeoutMs: options.stepTimeoutMs,
+        onConfirm: options.onConfirm ?? this.onConfirm,
+        onConfirmStep: options.onConfirmStep ?? this.onConfirmStep,
+      });
+    });
+  }
+
+  async transact(
+    prompt: string,
+    options: TransactOptions = {}
+  ): Promise<TransactResult> {
+    const executionId = randomUUID();
+    return this.whileActive(executionId, () =>
+      this.runPrompt(prompt, options, executionId)
+    );
   }
 
-  saveWallet__insecure(filePath: string, encrypt: boolean = true): string {
-    if (!this.currentWallet) {
-      throw new Error("No wallet created");
+  transactStream(
+    prompt: string,
+    options: TransactOptions = {}
+  ): AsyncGenerator<TransactStreamRecord, TransactResult> {
+    const executionId = randomUUID();
+    return streamExecution(this.events, executionId, (signal) =>
+      this.whileActive(executionId, () =>
+        this.runPrompt(prompt, options, executionId, signal)
+      )
+    );
+  }
+
+  async resume(
+    executionId: string,
+    options: ResumeOptions = {}
+  ): Promise<TransactResult> {
+    //its checkpoint reads `running` either way, only this instance can tell
+    //a live run from one that crashed
+    if (this.activeExecutions.has(executionId)) {
+      throw new ExecutionInProgressError(
+        executionId,
+        undefined,
+        `Execution ${executionId} is still running`,
+        true
+      );
     }
-    return this.currentWallet.saveSeed(filePath, encrypt);
+    return this.whileActive(executionId, () =>
+      this.resumeExecution(executionId, options)
+    );
   }
 
-  async getDefaultAddress(): Promise<WalletAddress> {
-    if (!this.currentWallet) {
-      throw new Error("No wallet created");
+  private async resumeExecution(
+    executionId: string,
+    options: ResumeOptions
+  ): Promise<TransactResult> {
+    const checkpoint = await this.checkpointStore.get(executionId);
+    if (!checkpoint) {
+      throw new ExecutionNotFoundError(executionId);
+    }
+    if (checkpoint.status === "complete") {
+      return checkpoint.result;
+    }
+    const maxAgeMs = options.maxAgeMs ?? DEFAULT_RESUME_MAX_AGE_MS;
+    const ageMs = Date.now() - Date.parse(checkpoint.plan.createdAt);
+    if (ageMs > maxAgeMs) {
+      throw new StaleExecutionError(
+        executionId,
+        `Execution ${executionId} was quoted ${Math.round(
+          ageMs / 1000
+        )}s ago and has gone stale`
+      );
+    }
+    //steps with a hash are settled from it, but a step that stopped while
+    //being submitted may or may not have been broadcast
+    const inFlight = checkpoint.result.actions
+      .flatMap(({ steps }) => steps)
+      .find(
+        ({ status, transactionHash }) =>
+          status === "pending" && transactionHash === undefined
+      );
+    if (inFlight) {
+      throw new ExecutionInProgressError(
+        executionId,
+        checkpoint.result,
+        `Execution ${executionId} stopped while a ${inFlight.role} step to ${inFlight.to} was being submitted; check whether it landed before resuming`
+      );
     }
-    return this.currentWallet.getDefaultAddress();
+    const walletId = options.walletId ?? checkpoint.walletId;
+    const { context, actions } = await this.loadPlan(
+      checkpoint.plan,
+      walletId,
+      executionId
+    );
+    return this.executeActions(context, actions, {
+      executionId,
+      walletId,
+      plan: checkpoint.plan,
+      previous: checkpoint.result,
+      signal: combineSignals([options.signal], options.totalTimeoutMs),
+      stepTimeoutMs: options.stepTimeoutMs,
+      onConfirm: options.onConfirm ?? this.onConfirm,
+      onConfirmStep: options.onConfirmStep ?? this.onConfirmStep,
+    });
   }
 
-  async getAddress(): Promise<string> {
-    const walletAddress = await this.getDefaultAddress();
-    return walletAddress?.getId();
+  private async runPrompt(
+    prompt: string,
+    options: TransactOptions,
+    executionId: string,
+    streamSignal?: AbortSignal
+  ): Promise<TransactResult> {
+    const { idempotencyKey } = options;
+    const signal = combineSignals(
+      [streamSignal, options.signal],
+      options.totalTimeoutMs
+    );
+    if (idempotencyKey === undefined) {
+      return this.executePrompt(prompt, options, executionId, signal);
+    }
+    const existing = await this.idempotencyStore.claim({
+      key: idempotencyKey,
+      executionId,
+      createdAt: new Date().toISOString(),
+    });
+    if (existing) {
+      const checkpoint = await this.checkpointStore.get(existing.executionId);
+      if (!checkpoint || checkpoint.status === "running") {
+        //a run this instance is not running belongs to another process, or
+        //to one that crashed
+        const live = this.activeExecutions.has(existing.executionId);
+        throw new ExecutionInProgressError(
+          existing.executionId,
+          checkpoint?.result,
+          live
+            ? `Execution ${existing.executionId} is still running`
+            : `Execution ${existing.executionId} is not running in this process`,
+          live
+        );
+      }
+      //a failed run is reported as one, not handed back as a result
+      if (checkpoint.status === "failed") {
+        throw new ExecutionFailedError(existing.executionId, checkpoint.result);
+      }
+      return checkpoint.result;
+    }
+    try {
+      return await this.executePrompt(prompt, options, executionId, signal);
+    } catch (error) {
+      //runs that stopped before leaving a checkpoint sent nothing, so a
+      //retry with the same key may run again
+      if (!(await this.checkpointStore.get(executionId))) {
+        await this.idempotencyStore.release(idempotencyKey);
+      }
+      throw error;
+    }
   }
 
-  async fundWallet(): Promise<FaucetTransaction> {
-    if (!this.currentWallet) {
-      throw new Error("No wallet created");
+  private async executePrompt(
+    prompt: string,
+    options: TransactOptions,
+    executionId: string,
+    signal?: AbortSignal
+  ): Promise<TransactResult> {
+    const context: ActionContext = {
+      ...(await this.getActionContext(
+        options.walletId,
+        options.addressId,
+        executionId
+      )),
+      signal,
+    };
+    let quoted: { plan: ExecutionPlan; actions: DecodedAction[] };
+    try {
+      quoted = await this.createPlan(prompt, context, options);
+    } catch (caught) {
+      const error = signal?.aborted
+        ? new AbortError(`Execution ${executionId} was aborted`, {
+            executionId,
+            cause: signal.reason,
+          })
+        : caught;
+      //runs that never got to execute still report their end
+      this.events.emit("execution:finished", {
+        executionId,
+        result: { executionId, actions: [] },
+        error,
+      });
+      await this.journalUnplannedRun(executionId, prompt, context, error);
+      throw error;
     }
-    if (this.currentWallet.getNetworkId() !== "base-sepolia") {
-      throw new Error("Wallet is not on Sepolia");
+    const { plan, actions } = quoted;
+    return this.executeActions(context, actions, {
+      executionId,
+      walletId: options.walletId,
+      plan,
+      signal,
+      stepTimeoutMs: options.stepTimeoutMs,
+      onConfirm: options.onConfirm ?? this.onConfirm,
+      onConfirmStep: options.onConfirmStep ?? this.onConfirmStep,
+    });
+  }
+
+  //a registry key stays bound to one wallet: re-registering that wallet is
+  //fine, handing the key to another one is not
+  private checkWalletKey(key: string, walletId?: string): void {
+    const existing = this.wallets.get(key)?.getId();
+    if (existing !== undefined && existing !== walletId) {
+      throw new WalletConflictError(
+        key,
+        `Wallet key ${key} is already bound to wallet ${existing}`
+      );
     }
-    return await this.currentWallet.faucet();
   }
 
-  async transact(prompt: string) {
-    if (!this.currentWallet) {
-      throw new Error("No wallet created");
+  //marks the execution active from the first synchronous step of `task`
+  private async whileActive<T>(
+    executionId: string,
+    task: () => Promise<T>
+  ): Promise<T> {
+    this.activeExecutions.add(executionId);
+    try {
+      return await task();
+    } finally {
+      this.activeExecutions.delete(executionId);
     }
-    const walletAddress = await this.getDefaultAddress();
+  }
+
+  private registerWallet(wallet: Wallet, label?: string): Wallet {
+    const walletId = wallet.getId()!;
+    //checked again, another call may have taken the key in the meantime
+    this.checkWalletKey(label ?? walletId, walletId);
+    this.wallets.set(label ?? walletId, wallet);
+    this.currentWallet = wallet;
+    return wallet;
+  }
+
+  private async getActionContext(
+    walletId?: string,
+    addressId?: string,
+    executionId?: string
+  ): Promise<ActionContext> {
+    //resolve the wallet once so concurrent calls never read currentWallet later
+    const wallet = this.getWallet(walletId);
+    const walletAddress =
+      addressId === undefined
+        ? await wallet.getDefaultAddress()
+        : (await wallet.listAddresses()).find(
+            (address) =>
+              address.getId().toLowerCase() === addressId.toLowerCase()
+          );
     if (!walletAddress) {
-      throw new Error("No wallet address found");
+      throw new NoWalletError(
+        addressId === undefined
+          ? "No wallet address found"
+          : `Address ${addressId} does not belong to the wallet`
+      );
+    }
+    return { wallet, address: walletAddress, events: this.events, executionId };
+  }
+
+  private async createPlan(
+    prompt: string,
+    context: ActionContext,
+    options: TransactOptions
+  ): Promise<{ plan: ExecutionPlan; actions: DecodedAction[] }> {
+    const chainId =
+      options.chainId ?? getChainIdForNetwork(context.wallet.getNetworkId());
+    const brianResponse = await this.requestTransactions(
+      prompt,
+      context,
+      chainId
+    );
+    const actions = this.decodeResults(brianResponse, context);
+
+    const plan: ExecutionPlan = {
+      version: EXECUTION_PLAN_VERSION,
+      prompt,
+      walletId: context.wallet.getId()!,
+      address: context.address.getId(),
+      chainId,
+      createdAt: new Date().toISOString(),
+      results: brianResponse,
+      actions: actions.map(({ result, steps, unsupported }) =>
+        toPlannedAction(result, steps, unsupported)
+      ),
+    };
+    this.events.emit("plan:decoded", {
+      executionId: context.executionId,
+      actions: plan.actions,
+    });
+    return { plan, actions };
+  }
+
+  private async loadPlan(
+    plan: ExecutionPlan,
+    walletId?: string,
+    executionId?: string
+  ): Promise<{ context: ActionContext; actions: DecodedAction[] }> {
+    if (plan.version !== EXECUTION_PLAN_VERSION) {
+      throw new InvalidPlanError(
+        `Unsupported execution plan version ${plan.version}`
+      );
+    }
+    const wallet = this.getWallet(walletId);
+    if (wallet.getId() !== plan.walletId) {
+      throw new InvalidPlanError("Execution plan belongs to another wallet");
     }
-    const brianResponse = await this.brianSDK.transact({
+    let context: ActionContext;
+    try {
+      context = await this.getActionContext(
+        walletId,
+        plan.address,
+        executionId
+      );
+    } catch (error) {
+      //the wallet was found above, so only the address can be missing
+      if (error instanceof NoWalletError) {
+        throw new InvalidPlanError("Execution plan belongs to another address");
+      }
+      throw error;
+    }
+    const actions = this.decodeResults(plan.results, context);
+    //the reviewed steps must be exactly what the stored Brian response decodes to
+    const decodedPlan = actions.map(({ result, steps, unsupported }) =>
+      toPlannedAction(result, steps, unsupported)
+    );
+    if (JSON.stringify(decodedPlan) !== JSON.stringify(plan.actions)) {
+      throw new InvalidPlanError(
+        "Execution plan steps do not match its Brian response"
+      );
+    }
+    this.events.emit("plan:decoded", { executionId, actions: plan.actions });
+    return { context, actions };
+  }
+
+  private async requestTransactions(
+    prompt: string,
+    context: ActionContext,
+    chainId: number
+  ): Promise<TransactionResult[]> {
+    const { executionId } = context;
+    const address = context.address.getId().toString();
+    this.events.emit("brian:request", {
+      executionId,
+      prompt,
+      address,
+      chainId,
+    });
+    const startedAt = Date.now();
+    let results: TransactionResult[];
+    try {
+      //the Brian SDK takes no signal, so an aborted request is abandoned
+      results = await withRetry(
+        this.retryPolicy,
+        () =>
+          raceAbort(
+            this.brianSDK.transact({
+              prompt,
+              address,
+              chainId: `${chainId}`,
+            }),
+            context.signal
+          ),
+        (error, attempt, delayMs) =>
+          this.events.emit("retry", {
+            executionId,
+            operation: "brian:transact",
+            attempt,
+            delayMs,
+            error,
+          }),
+        context.signal
+      );
+    } catch (error) {
+      //every request ends with a response or a failure
+      this.events.emit("brian:failed", {
+        executionId,
+        prompt,
+        error,
+        durationMs: Date.now() - startedAt,
+      });
+      //cancellation is reported by the caller
+      if (context.signal?.aborted) {
+        throw error;
+      }
+      throw new BrianApiError(
+        `Brian request failed: ${
+          error instanceof Error ? error.message : String(error)
+        }`,
+        error
+      );
+    }
+    this.events.emit("brian:response", {
+      executionId,
       prompt,
-      address: walletAddress?.getId().toString(),
-      chainId: "8453"
+      results,
+      durationMs: Date.now() - startedAt,
     });
+    return results;
+  }
 
-    const txHashes: (Transfer | ContractInvocation)[] = [];
+  private decodeResults(
+    brianResponse: TransactionResult[],
+    context: ActionContext
+  ): DecodedAction[] {
+    const actions: DecodedAction[] = [];
 
     for (const transactionResult of brianResponse) {
-      const { action, data, solver } = transactionResult;
-
-      if (action === "transfer") {
-        const txStep = data.steps![0];
-        if (!txStep) {
-          continue;
-        }
-        if (data.fromToken?.address === NULL_ADDRESS) {
-          // generate tx for ETH
-          const ethTransferTx = await this.currentWallet.createTransfer({
-            destination: txStep.to,
-            amount: BigInt(txStep.value),
-            assetId: Coinbase.assets.Wei,
-          });
-          txHashes.push(await ethTransferTx.wait());
-        } else {
-          const [decodedData, functionName] = decodeFunctionDataForCdp(
-            erc20Abi,
-            txStep.data
+      const { action } = transactionResult;
+      let handler = this.actionHandlers.get(action);
+      let unsupported: DecodedAction["unsupported"];
+      if (!handler) {
+        if (this.onUnsupportedAction === "throw") {
+          throw new UnsupportedActionError(
+            action,
+            `Brian returned action "${action}", which has no handler`
           );
-          const erc20TransferTx = await this.currentWallet.invokeContract({
-            contractAddress: txStep.to,
-            method: functionName,
-            abi: erc20Abi,
-            args: decodedData,
-          });
-          txHashes.push(await erc20TransferTx.wait());
         }
-      }
-      if (action === "swap") {
-        //check if there are any steps
-        const txStepsLength = data.steps!.length;
-        if (txStepsLength === 0) {
+        if (this.onUnsupportedAction === "skip-and-report") {
+          actions.push({
+            result: transactionResult,
+            steps: [],
+            unsupported: "skipped",
+          });
           continue;
         }
-        const approveNeeded = data.steps!.length > 1;
+        handler = genericActionHandler;
+        unsupported = "generic";
+      }
+      actions.push({
+        result: transactionResult,
+        handler,
+        unsupported,
+        steps: applyApprovalPolicy(
+          transactionResult,
+          handler.decode(transactionResult, context),
+          this.approvalPolicy
+        ),
+      });
+    }
+    return actions;
+  }
 
-        if (approveNeeded) {
-          const [decodedData, functionName] = decodeFunctionDataForCdp(
-            erc20Abi,
-            data.steps![0].data
-          );
-          //make approve
-          const erc20ApproveTx = await this.currentWallet.invokeContract({
-            contractAddress: data.steps![0].to,
-            method: functionName,
-            abi: erc20Abi,
-            args: decodedData,
-          });
-          txHashes.push(await erc20ApproveTx.wait());
-        }
-        //retrieve swap data
-        const solverAbi =
-          solver === "Enso"
-            ? ENSO_ROUTER_ABI
-            : solver === "Bungee"
-            ? BUNGEE_ROUTER_ABI
-            : LIFI_ROUTER_ABI;
-
-        //decode data according to CDP sdk
-        const [decodedData, functionName] = decodeFunctionDataForCdp(
-          solverAbi,
-          data.steps![data.steps!.length - 1].data
+  private async executeActions(
+    context: ActionContext,
+    actions: DecodedAction[],
+    run: ExecutionRun
+  ): Promise<TransactResult> {
+    const transactResult: TransactResult = {
+      executionId: run.executionId,
+      actions: actions.map(({ result, unsupported }) =>
+        unsupported === "skipped"
+          ? {
+              ...toPlannedAction(result, [], unsupported),
+              status: "skipped",
+              steps: [],
+              raw: result,
+            }
+          : {
+              ...toPlannedAction(result, [], unsupported),
+              status: "pending",
+              steps: [],
+            }
+      ),
+    };
+    await this.appendJournal(run, {
+      type: "execution:started",
+      plan: run.plan,
+    });
+    this.events.emit("execution:started", {
+      executionId: run.executionId,
+      actions: run.plan.actions,
+    });
+    try {
+      await this.runActions(
+        { ...context, signal: run.signal },
+        actions,
+        run,
+        transactResult
+      );
+    } catch (caught) {
+      const error =
+        run.signal?.aborted && !(caught instanceof AbortError)
+          ? new AbortError(`Execution ${run.executionId} was aborted`, {
+              executionId: run.executionId,
+              result: transactResult,
+              cause: run.signal.reason,
+            })
+          : caught;
+      //every run that started reports its end once, however it stopped
+      this.events.emit("execution:finished", {
+        executionId: run.executionId,
+        result: transactResult,
+        error,
+      });
+      await this.appendJournal(run, {
+        type: "execution:finished",
+        status: "failed",
+        result: toCheckpointResult(transactResult),
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      await this.budgetTracker?.release(run.executionId);
+    }
+    this.events.emit("execution:finished", {
+      executionId: run.executionId,
+      result: transactResult,
+    });
+    await this.appendJournal(run, {
+      type: "execution:finished",
+      status: "complete",
+      result: toCheckpointResult(transactResult),
+    });
+    return transactResult;
+  }
+
+  //runs that fail while quoting or decoding have no plan, but are journaled
+  //like any other call
+  private async journalUnplannedRun(
+    executionId: string,
+    prompt: string,
+    context: ActionContext,
+    error: unknown
+  ): Promise<void> {
+    const entry = {
+      executionId,
+      walletId: context.wallet.getId()!,
+      address: context.address.getId(),
+      actions: [],
+    };
+    await this.journal?.append({
+      ...entry,
+      type: "execution:started",
+      prompt,
+      recordedAt: new Date().toISOString(),
+    });
+    await this.journal?.append({
+      ...entry,
+      type: "execution:finished",
+      status: "failed",
+      error: error instanceof Error ? error.message : String(error),
+      recordedAt: new Date().toISOString(),
+    });
+  }
+
+  private async appendJournal(
+    run: ExecutionRun,
+    entry: Omit<
+      JournalEntry,
+      "executionId" | "walletId" | "address" | "actions" | "recordedAt"
+    >
+  ): Promise<void> {
+    await this.journal?.append({
+      ...entry,
+      executionId: run.executionId,
+      walletId: run.plan.walletId,
+      address: run.plan.address,
+      actions: run.plan.actions.map(({ action }) => action),
+      recordedAt: new Date().toISOString(),
+    });
+  }
+
+  private async runActions(
+    context: ActionContext,
+    actions: DecodedAction[],
+    run: ExecutionRun,
+    transactResult: TransactResult
+  ): Promise<void> {
+    const { executionId } = run;
+    //calldata quoted for another chain must never be sent on this one
+    const networkId = context.wallet.getNetworkId();
+    const chainId = getChainIdForNetwork(networkId);
+    for (const { result, steps } of actions) {
+      const foreign = steps.find(({ step }) => step.chainId !== chainId);
+      if (foreign) {
+        throw new WrongNetworkError(
+          networkId,
+          `Action "${result.action}" was quoted for chain ${foreign.step.chainId}, but the wallet is on ${networkId} (chain ${chainId})`
         );
-        //make swap
-        const swapTx = await this.currentWallet.invokeContract({
-          contractAddress: data.steps![data.steps!.length - 1].to,
-          method: functionName,
-          abi: solverAbi,
-          args: decodedData,
-          amount: BigInt(data.steps![data.steps!.length - 1].value),
-          assetId: Coinbase.assets.Wei,
+      }
+    }
+    if (this.policy) {
+      const violations = evaluatePolicy(this.policy, actions);
+      if (violations.length > 0) {
+        throw new PolicyViolationError(violations);
+      }
+    }
+    await this.checkBudget(actions, run);
+    //a pending approval is bounded by the run's signal and deadline, the
+    //abort is reported as such by `executeActions`
+    if (
+      run.onConfirm &&
+      !(await raceAbort(run.onConfirm(run.plan), run.signal))
+    ) {
+      throw new UserRejectedError("Execution plan was rejected");
+    }
+    const saveCheckpoint = (status: ExecutionStatus) =>
+      this.checkpointStore.save({
+        executionId,
+        walletId: run.walletId,
+        plan: run.plan,
+        result: withPreviousSteps(
+          toCheckpointResult(transactResult),
+          run.previous
+        ),
+        status,
+        updatedAt: new Date().toISOString(),
+      });
+    //stop before sending anything else, leaving a resumable checkpoint
+    const throwIfAborted = async () => {
+      if (run.signal?.aborted) {
+        await saveCheckpoint("failed");
+        throw new AbortError(`Execution ${executionId} was aborted`, {
+          executionId,
+          result: transactResult,
+          cause: run.signal.reason,
         });
-        txHashes.push(await swapTx.wait());
       }
-      if (action === "bridge") {
-        //check if there are any steps
-        const txStepsLength = data.steps!.length;
-        if (txStepsLength === 0) {
-          continue;
-        }
-        const approveNeeded = data.steps!.length > 1;
-        if (approveNeeded) {
-          //decode data according to CDP sdk
-          const [decodedData, functionName] = decodeFunctionDataForCdp(
-            erc20Abi,
-            data.steps![0].data
-          );
+    };
+    await saveCheckpoint("running");
 
-          //make approve
-          const erc20ApproveTx = await this.currentWallet.invokeContract({
-            contractAddress: data.steps![0].to,
-            method: functionName,
-            abi: erc20Abi,
-            args: decodedData,
-          });
-          txHashes.push(await erc20ApproveTx.wait());
-        }
-        //get bridge solver
-        const bridgeSolver = solver;
-        //get solver abi
-        const solverAbi =
-          bridgeSolver === "Enso"
-            ? ENSO_ROUTER_ABI
-            : bridgeSolver === "Bungee"
-            ? BUNGEE_ROUTER_ABI
-            : LIFI_ROUTER_ABI;
-        //decode data according to CDP sdk
-        const [decodedData, functionName] = decodeFunctionDataForCdp(
-          solverAbi,
-          data.steps![data.steps!.length - 1].data
-        );
-
-        //make bridge
-        const bridgeTx = await this.currentWallet.invokeContract({
-          contractAddress: data.steps![data.steps!.length - 1].to,
-          method: functionName,
-          abi: solverAbi,
-          args: decodedData,
-          amount: BigInt(data.steps![data.steps!.length - 1].value),
-          assetId: Coinbase.assets.Wei,
-        });
-        txHashes.push(await bridgeTx.wait());
+    for (const [
+      actionIndex,
+      { result, handler, steps },
+    ] of actions.entries()) {
+      const actionResult = transactResult.actions[actionIndex];
+      if (!handler) {
+        continue;
       }
-      if (action === "deposit") {
-        //check if there are any steps
-        const txStepsLength = data.steps!.length;
-        if (txStepsLength === 0) {
+      let spendRecorded = isSpendRecorded(run.previous, actionIndex);
+      for (const [index, step] of steps.entries()) {
+        //steps confirmed or skipped by an earlier run are not sent again
+        const previousStep = run.previous?.actions[actionIndex]?.steps[index];
+        if (
+          previousStep?.status === "complete" ||
+          previousStep?.status === "skipped"
+        ) {
+          actionResult.steps.push(previousStep);
           continue;
         }
-        const approveNeeded = data.steps!.length > 1;
-        if (approveNeeded) {
-          //decode data according to CDP sdk
-          const [decodedData, functionName] = decodeFunctionDataForCdp(
-            erc20Abi,
-            data.steps![0].data
+        const stepEvent = (stepResult: StepResult) => ({
+          executionId,
+          actionIndex,
+          stepIndex: index,
+          action: actionResult.action,
+          step: stepResult,
+        });
+        const confirmStep = async (stepResult: StepResult) => {
+          await saveCheckpoint("running");
+          //spend counts once the main step lands, whatever follows it
+          if (
+            step.role === "main" &&
+            !spendRecorded &&
+            this.budgetTracker?.tracks(result.action)
+          ) {
+            spendRecorded = true;
+            await this.budgetTracker.record(
+              run.plan.walletId,
+              executionId,
+              result.action,
+              getTokenSpend(result, steps)
+            );
+          }
+          this.events.emit("step:confirmed", stepEvent(stepResult));
+        };
+
+        //a step broadcast by an earlier run is settled from its hash, and
+        //only sent again if it landed as failed
+        if (
+          previousStep?.status === "pending" &&
+          previousStep.transactionHash
+        ) {
+          const status = await this.transactionStatusReader.getStatus(
+            context.address,
+            previousStep.transactionHash
           );
-          //make approve
-          const erc20ApproveTx = await this.currentWallet.invokeContract({
-            contractAddress: data.steps![0].to,
-            method: functionName,
-            abi: erc20Abi,
-            args: decodedData,
-          });
-          txHashes.push(await erc20ApproveTx.wait());
+          if (status !== "failed") {
+            const settledStep: StepResult = { ...previousStep };
+            actionResult.steps.push(settledStep);
+            if (status !== "complete") {
+              await saveCheckpoint("failed");
+              throw new ExecutionInProgressError(
+                executionId,
+                transactResult,
+                `Step ${index} (${step.role}) of action "${actionResult.action}" was broadcast as ${previousStep.transactionHash} and has not landed yet`
+              );
+            }
+            const finishedAt = new Date();
+            settledStep.status = "complete";
+            settledStep.error = undefined;
+            settledStep.finishedAt = finishedAt.toISOString();
+            settledStep.durationMs =
+              finishedAt.getTime() - Date.parse(settledStep.startedAt);
+            await confirmStep(settledStep);
+            continue;
+          }
         }
-        //get deposit solver
-        const depositSolver = solver;
-        //decode data according to CDP sdk
-        const [decodedData, functionName] = decodeFunctionDataForCdp(
-          depositSolver === "Enso" ? ENSO_ROUTER_ABI : LIDO_ABI,
-          data.steps![data.steps!.length - 1].data
-        );
 
-        //make deposit
-        const depositTx = await this.currentWallet.invokeContract({
-          contractAddress: data.steps![data.steps!.length - 1].to,
-          method: functionName,
-          abi: depositSolver === "Enso" ? ENSO_ROUTER_ABI : LIDO_ABI,
-          args: decodedData,
-          amount: BigInt(data.steps![data.steps!.length - 1].value),
-          assetId: Coinbase.assets.Wei,
-        });
-        txHashes.push(await depositTx.wait());
-      }
-      if (action === "withdraw") {
-        //check if there are any steps
-        const txStepsLength = data.steps!.length;
-        if (txStepsLength === 0) {
+        const skipReason = await this.getSkipReason(context, step);
+        if (skipReason) {
+          const skippedAt = new Date().toISOString();
+          const skippedStep: StepResult = {
+            ...toPlannedStep(step),
+            status: "skipped",
+            skipReason,
+            startedAt: skippedAt,
+            finishedAt: skippedAt,
+            durationMs: 0,
+          };
+          actionResult.steps.push(skippedStep);
+          await saveCheckpoint("running");
+          this.events.emit("step:skipped", stepEvent(skippedStep));
           continue;
         }
-        const approveNeeded = data.steps!.length > 1;
-        if (approveNeeded) {
-          //decode data according to CDP sdk
-          const [decodedData, functionName] = decodeFunctionDataForCdp(
-            erc20Abi,
-            data.steps![0].data
-          );
-          //make approve
-          const erc20ApproveTx = await this.currentWallet.invokeContract({
-            contractAddress: data.steps![0].to,
-            method: functionName,
-            abi: erc20Abi,
-            args: decodedData,
-          });
-          txHashes.push(await erc20ApproveTx.wait());
+        await throwIfAborted();
+        try {
+          await handler.beforeStep?.(step, index, context, steps);
+        } catch (error) {
+          //hooks interrupted by the signal reject with its reason
+          await throwIfAborted();
+          throw error;
         }
-        //decode data according to CDP sdk
-        const [decodedData, functionName] = decodeFunctionDataForCdp(
-          ENSO_ROUTER_ABI,
-          data.steps![data.steps!.length - 1].data
-        );
-        //make withdraw
-        const withdrawTx = await this.currentWallet.invokeContract({
-          contractAddress: data.steps![data.steps!.length - 1].to,
-          method: functionName,
-          abi: ENSO_ROUTER_ABI,
-          args: decodedData,
-          amount: BigInt(data.steps![data.steps!.length - 1].value),
-          assetId: Coinbase.assets.Wei,
-        });
-        txHashes.push(await withdrawTx.wait());
-      }
-      if (action === "AAVE Borrow") {
-        //check if there are any steps
-        const txStepsLength = data.steps!.length;
-        if (txStepsLength === 0) {
-          continue;
+        await throwIfAborted();
+        let confirmed = true;
+        if (run.onConfirmStep && steps.length > 1) {
+          try {
+            confirmed = await raceAbort(
+              run.onConfirmStep({
+                plan: run.plan,
+                action: actionResult.action,
+                actionIndex,
+                stepIndex: index,
+                step: toPlannedStep(step),
+              }),
+              run.signal
+            );
+          } catch (error) {
+            await throwIfAborted();
+            throw error;
+          }
         }
-        const approveNeeded = data.steps!.length > 1;
-        if (approveNeeded) {
-          //decode data according to CDP sdk
-          const [decodedData, functionName] = decodeFunctionDataForCdp(
-            erc20Abi,
-            data.steps![0].data
+        if (!confirmed) {
+          const error = new UserRejectedError(
+            `Step ${index} (${step.role}) of action "${actionResult.action}" was rejected`,
+            transactResult
           );
-          //make approve
-          const erc20ApproveTx = await this.currentWallet.invokeContract({
-            contractAddress: data.steps![0].to,
-            method: functionName,
-            abi: erc20Abi,
-            args: decodedData,
-          });
-          txHashes.push(await erc20ApproveTx.wait());
+          actionResult.status = "failed";
+          await saveCheckpoint("failed");
+          throw error;
         }
-        //decode data according to CDP sdk
-        const [decodedData, functionName] = decodeFunctionDataForCdp(
-          data.steps![data.steps!.length - 1].chainId === 1
-            ? AAVE_V3_L1_POOL_ABI
-            : AAVE_V3_L2_POOL_ABI,
-          data.steps![data.steps!.length - 1].data
-        );
-        //make borrow
-        const borrowTx = await this.currentWallet.invokeContract({
-          contractAddress: data.steps![data.steps!.length - 1].to,
-          method: functionName,
-          abi:
-            data.steps![data.steps!.length - 1].chainId === 1
-              ? AAVE_V3_L1_POOL_ABI
-              : AAVE_V3_L2_POOL_ABI,
-          args: decodedData,
-          amount: BigInt(data.steps![data.steps!.length - 1].value),
-          assetId: Coinbase.assets.Wei,
-        });
-        txHashes.push(await borrowTx.wait());
-      }
-      if (action === "AAVE Repay") {
-        //check if there are any steps
-        const txStepsLength = data.steps!.length;
-        if (txStepsLength === 0) {
-          continue;
+        const startedAt = new Date();
+        const stepResult: StepResult = {
+          ...toPlannedStep(step),
+          status: "pending",
+          startedAt: startedAt.toISOString(),
+        };
+        actionResult.steps.push(stepResult);
+        //record the attempt first so a crash mid-step is never resent blindly
+        await saveCheckpoint("running");
+
+        //the run's signal and deadline bound the wait as much as the step's own
+        const stepSignal = combineSignals([run.signal], run.stepTimeoutMs);
+        let failure: unknown;
+        let pendingTx: Transfer | ContractInvocation | undefined;
+        try {
+          pendingTx = await this.submitStep(context.address, step);
+        } catch (error) {
+          failure = error;
+          stepResult.status = "failed";
+          stepResult.error =
+            error instanceof Error ? error.message : String(error);
         }
-        const approveNeeded = data.steps!.length > 1;
-        if (approveNeeded) {
-          //decode data according to CDP sdk
-          const [decodedData, functionName] = decodeFunctionDataForCdp(
-            erc20Abi,
-            data.steps![0].data
+        if (pendingTx) {
+          const submitted = pendingTx;
+          stepResult.transactionHash = submitted.getTransactionHash();
+          this.events.emit("step:submitted", {
+            ...stepEvent(stepResult),
+            transactionHash: stepResult.transactionHash,
+          });
+          //outside the try below: a journal that cannot be written stops the
+          //run, but never marks a broadcast step failed
+          await saveCheckpoint("running");
+          await this.appendJournal(run, {
+            type: "step:submitted",
+            actionIndex,
+            stepIndex: index,
+            transactionHash: stepResult.transactionHash,
+          });
+          try {
+            //only polling is retried, the transaction is already broadcast
+            const tx = await raceAbort(
+              withRetry(
+                this.retryPolicy,
+                (): Promise<Transfer | ContractInvocation> =>
+                  //CDP stops polling after 10s unless told otherwise
+                  submitted.wait(
+                    run.stepTimeoutMs === undefined
+                      ? undefined
+                      : { timeoutSeconds: run.stepTimeoutMs / 1000 }
+                  ),
+                (error, attempt, delayMs) =>
+                  this.events.emit("retry", {
+                    executionId,
+                    operation: "step:wait",
+                    attempt,
+                    delayMs,
+                    error,
+                  }),
+                stepSignal
+              ),
+              stepSignal
+            );
+            stepResult.transaction = tx;
+            stepResult.transactionHash = tx.getTransactionHash();
+            stepResult.status =
+              tx.getStatus() === "failed" ? "failed" : "complete";
+          } catch (error) {
+            if (stepSignal?.aborted) {
+              //the step was broadcast and can still land
+              await saveCheckpoint("failed");
+              throw new AbortError(
+                run.signal?.aborted
+                  ? `Execution ${executionId} was aborted`
+                  : `Step ${index} (${step.role}) of action "${actionResult.action}" timed out`,
+                {
+                  executionId,
+                  result: transactResult,
+                  cause: stepSignal.reason,
+                }
+              );
+            }
+            //the transaction is out and may still land: it stays pending for
+            //`resume` to settle from its hash rather than send it again
+            stepResult.error =
+              error instanceof Error ? error.message : String(error);
+            await saveCheckpoint("failed");
+            throw new ExecutionInProgressError(
+              executionId,
+              transactResult,
+              `Step ${index} (${step.role}) of action "${actionResult.action}" was broadcast as ${stepResult.transactionHash} but did not confirm (${stepResult.error}); resume to settle it`
+            );
+          }
+        }
+        const finishedAt = new Date();
+        stepResult.finishedAt = finishedAt.toISOString();
+        stepResult.durationMs = finishedAt.getTime() - startedAt.getTime();
+
+        if (stepResult.status === "failed") {
+          actionResult.status = "failed";
+          await saveCheckpoint("failed");
+          const error = new StepExecutionError(
+            `Step ${index} (${step.role}) of action "${actionResult.action}" failed`,
+            {
+              result: transactResult,
+              actionIndex,
+              stepIndex: index,
+              cause: failure,
+            }
           );
-          //make approve
-          const erc20ApproveTx = await this.currentWallet.invokeContract({
-            contractAddress: data.steps![0].to,
-            method: functionName,
-            abi: erc20Abi,
-            args: decodedData,
+          this.events.emit("step:failed", {
+            ...stepEvent(stepResult),
+            error: failure ?? error,
           });
-          txHashes.push(await erc20ApproveTx.wait());
+          throw error;
         }
-        //decode data according to CDP sdk
-        const [decodedData, functionName] = decodeFunctionDataForCdp(
-          data.steps![data.steps!.length - 1].chainId === 1
-            ? AAVE_V3_L1_POOL_ABI
-            : AAVE_V3_L2_POOL_ABI,
-          data.steps![data.steps!.length - 1].data
-        );
-        //make repay
-        const repayTx = await this.currentWallet.invokeContract({
-          contractAddress: data.steps![data.steps!.length - 1].to,
-          method: functionName,
-          abi:
-            data.steps![data.steps!.length - 1].chainId === 1
-              ? AAVE_V3_L1_POOL_ABI
-              : AAVE_V3_L2_POOL_ABI,
-          args: decodedData,
-          amount: BigInt(data.steps![data.steps!.length - 1].value),
-          assetId: Coinbase.assets.Wei,
-        });
-        txHashes.push(await repayTx.wait());
+        await confirmStep(stepResult);
       }
-      if (action === "ENS Registration") {
-        //check if there are any steps
-        const txStepsLength = data.steps!.length;
-        if (txStepsLength === 0) {
-          continue;
-        }
-        //decode data according to CDP sdk
-        const [decodedDataCommitment, functionNameCommitment] =
-          decodeFunctionDataForCdp(
-            ENS_REGISTRAR_CONTROLLER_ABI,
-            data.steps![0].data
-          );
-        //make commitment
-        const commitmentTx = await this.currentWallet.invokeContract({
-          contractAddress: data.steps![0].to,
-          method: functionNameCommitment,
-          abi: ENS_REGISTRAR_CONTROLLER_ABI,
-          args: decodedDataCommitment,
-          amount: BigInt(data.steps![0].value),
-          assetId: Coinbase.assets.Wei,
-        });
-        txHashes.push(await commitmentTx.wait());
-        //wait 60 seconds for ens commitment to be made
-        await new Promise((resolve) => setTimeout(resolve, 60000));
-        //ens registration
-        const [decodedDataRegistration, functionNameRegistration] =
-          decodeFunctionDataForCdp(
-            ENS_REGISTRAR_CONTROLLER_ABI,
-            data.steps![1].data
-          );
-        //make registration
-        const registrationTx = await this.currentWallet.invokeContract({
-          contractAddress: data.steps![1].to,
-          method: functionNameRegistration,
-          abi: ENS_REGISTRAR_CONTROLLER_ABI,
-          args: decodedDataRegistration,
-          amount: BigInt(data.steps![1].value),
-          assetId: Coinbase.assets.Wei,
-        });
-        txHashes.push(await registrationTx.wait());
+      actionResult.status = "complete";
+    }
+    await saveCheckpoint("complete");
+  }
+
+  private async checkBudget(
+    actions: DecodedAction[],
+    run: ExecutionRun
+  ): Promise<void> {
+    if (!this.budgetTracker) {
+      return;
+    }
+    const requested = new Map<string, bigint>();
+    for (const [actionIndex, { result, steps }] of actions.entries()) {
+      if (
+        !this.budgetTracker.tracks(result.action) ||
+        isSpendRecorded(run.previous, actionIndex)
+      ) {
+        continue;
       }
-      if (action === "ENS Renewal") {
-        //check if there are any steps
-        const txStepsLength = data.steps!.length;
-        if (txStepsLength === 0) {
-          continue;
-        }
-        //decode data according to CDP sdk
-        const [decodedData, functionName] = decodeFunctionDataForCdp(
-          ENS_REGISTRAR_CONTROLLER_ABI,
-          data.steps![0].data
-        );
-        //make renewal
-        const renewalTx = await this.currentWallet.invokeContract({
-          contractAddress: data.steps![0].to,
-          method: functionName,
-          abi: ENS_REGISTRAR_CONTROLLER_ABI,
-          args: decodedData,
-          amount: BigInt(data.steps![0].value),
-          assetId: Coinbase.assets.Wei,
-        });
-        txHashes.push(await renewalTx.wait());
+      for (const [token, amount] of getTokenSpend(result, steps)) {
+        requested.set(token, (requested.get(token) ?? 0n) + amount);
       }
     }
-    return txHashes;
+    const violations = await this.budgetTracker.reserve(
+      run.plan.walletId,
+      run.executionId,
+      requested
+    );
+    if (violations.length > 0) {
+      throw new BudgetExceededError(violations);
+    }
+  }
+
+  private async getSkipReason(
+    context: ActionContext,
+    step: ActionStep
+  ): Promise<string | undefined> {
+    if (step.role !== "approve" || !this.skipRedundantApprovals) {
+      return undefined;
+    }
+    try {
+      const allowance = await getSufficientAllowance(
+        this.contractReader,
+        context.wallet.getNetworkId(),
+        context.address.getId(),
+        step
+      );
+      return allowance === undefined
+        ? undefined
+        : `Current allowance ${allowance} already covers the approval`;
+    } catch {
+      //when the allowance cannot be read, approving is the safe choice
+      return undefined;
+    }
+  }
+
+  private async submitStep(
+    address: WalletAddress,
+    step: ActionStep
+  ): Promise<Transfer | ContractInvocation> {
+    if (step.type === "transfer") {
+      return address.createTransfer({
+        destination: step.destination,
+        amount: step.amount,
+        assetId: Coinbase.assets.Wei,
+      });
+    }
+    return address.invokeContract({
+      contractAddress: step.contractAddress,
+      method: step.method,
+      abi: step.abi,
+      args: step.args,
+      ...(step.amount !== undefined && {
+        amount: step.amount,
+        assetId: Coinbase.assets.Wei,
+      }),
+    });
   }
 }
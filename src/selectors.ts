@@ -0,0 +1,152 @@
+import {
+  Abi,
+  AbiFunction,
+  toFunctionSelector,
+  toFunctionSignature,
+} from "viem";
+import { CalldataDecodeError } from "./errors";
+import { SolverAbiRegistry, solverAbiRegistry } from "./solvers";
+import { BUNDLED_ABIS, decodeFunctionDataForCdp } from "./utils";
+
+export interface SelectorCandidate {
+  abiName: string;
+  abi: Abi;
+  abiFunction: AbiFunction;
+  //canonical signature, e.g. `approve(address,uint256)`
+  signature: string;
+}
+
+export interface DetectedFunction {
+  abiName: string;
+  abi: Abi;
+  abiFunction: AbiFunction;
+  functionName: string;
+  //arguments in the shape `invokeContract` expects
+  args: Record<string, any>;
+}
+
+/**
+ * Outcome of looking up a step's selector. Several ABIs declaring the same
+ * function still count as a match, as they decode the calldata the same
+ * way; different functions sharing a selector are ambiguous.
+ */
+export type SelectorDetection =
+  | ({
+      status: "matched";
+      selector: `0x${string}`;
+      candidates: SelectorCandidate[];
+    } & DetectedFunction)
+  | {
+      status: "ambiguous" | "unknown";
+      selector: `0x${string}`;
+      candidates: SelectorCandidate[];
+    };
+
+const selectorIndexes = new WeakMap<Abi, Map<string, AbiFunction>>();
+
+function getSelectorIndex(abi: Abi): Map<string, AbiFunction> {
+  let index = selectorIndexes.get(abi);
+  if (!index) {
+    index = new Map();
+    for (const item of abi) {
+      if (item.type === "function") {
+        index.set(toFunctionSelector(item), item);
+      }
+    }
+    selectorIndexes.set(abi, index);
+  }
+  return index;
+}
+
+/**
+ * Finds the function a step calls from its 4-byte selector, across the
+ * bundled ABIs, the solver registry and any ABI registered here.
+ */
+export class AbiDetector {
+  private readonly abis = new Map<string, Abi>();
+
+  constructor(
+    abis: Record<string, Abi> = BUNDLED_ABIS,
+    private readonly solvers: SolverAbiRegistry | undefined = solverAbiRegistry
+  ) {
+    for (const [name, abi] of Object.entries(abis)) {
+      this.register(name, abi);
+    }
+  }
+
+  register(name: string, abi: Abi): this {
+    this.abis.set(name, abi);
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    return this.abis.delete(name);
+  }
+
+  candidates(selector: string): SelectorCandidate[] {
+    const named = [...this.abis];
+    //solvers registered at runtime bring their router ABIs along
+    for (const solver of this.solvers?.solvers() ?? []) {
+      const abi = this.solvers?.get(solver)?.abi;
+      if (abi && !named.some(([, known]) => known === abi)) {
+        named.push([solver, abi]);
+      }
+    }
+    return named.flatMap(([abiName, abi]) => {
+      const abiFunction = getSelectorIndex(abi).get(selector.toLowerCase());
+      return abiFunction
+        ? [
+            {
+              abiName,
+              abi,
+              abiFunction,
+              signature: toFunctionSignature(abiFunction),
+            },
+          ]
+        : [];
+    });
+  }
+
+  detect(data: `0x${string}`): SelectorDetection {
+    const selector = data.slice(0, 10).toLowerCase() as `0x${string}`;
+    const candidates = this.candidates(selector);
+    if (candidates.length === 0) {
+      return { status: "unknown", selector, candidates };
+    }
+    if (new Set(candidates.map(({ signature }) => signature)).size > 1) {
+      return { status: "ambiguous", selector, candidates };
+    }
+    const [{ abiName, abi, abiFunction }] = candidates;
+    //decode against the matched function itself, whatever else the ABI holds
+    const [args, functionName] = decodeFunctionDataForCdp([abiFunction], data);
+    return {
+      status: "matched",
+      selector,
+      candidates,
+      abiName,
+      abi,
+      abiFunction,
+      functionName,
+      args,
+    };
+  }
+
+  //throws a `CalldataDecodeError` unless exactly one function matches
+  decode(data: `0x${string}`): DetectedFunction {
+    const detection = this.detect(data);
+    if (detection.status !== "matched") {
+      const { selector, candidates } = detection;
+      throw new CalldataDecodeError(
+        detection.status === "unknown"
+          ? `No known ABI matches selector ${selector}`
+          : `Selector ${selector} is ambiguous: ${candidates
+              .map(({ abiName, signature }) => `${abiName}.${signature}`)
+              .join(", ")}`,
+        { selector }
+      );
+    }
+    return detection;
+  }
+}
+
+export const abiDetector = new AbiDetector();
@@ -0,0 +1,43 @@
+import type { WalletAddress } from "@coinbase/coinbase-sdk";
+
+/**
+ * Looks up how a broadcast transaction ended, so `resume` can settle a step
+ * an earlier run never saw confirm instead of sending it again. Resolves to
+ * `undefined` while the transaction has not landed.
+ */
+export interface TransactionStatusReader {
+  getStatus(
+    address: WalletAddress,
+    transactionHash: string
+  ): Promise<"complete" | "failed" | undefined>;
+}
+
+//the most recent transactions come first, older ones cannot be in flight
+const MAX_HISTORY_PAGES = 5;
+
+export const cdpTransactionStatusReader: TransactionStatusReader = {
+  async getStatus(address, transactionHash) {
+    let page: string | undefined;
+    for (let read = 0; read < MAX_HISTORY_PAGES; read++) {
+      const { data, hasMore, nextPage } = await address.listTransactions({
+        page,
+      });
+      const transaction = data.find(
+        (item) =>
+          item.getTransactionHash()?.toLowerCase() ===
+          transactionHash.toLowerCase()
+      );
+      if (transaction) {
+        const status = transaction.getStatus();
+        return status === "complete" || status === "failed"
+          ? status
+          : undefined;
+      }
+      if (!hasMore || !nextPage) {
+        return undefined;
+      }
+      page = nextPage;
+    }
+    return undefined;
+  },
+};
@@ -0,0 +1,99 @@
+import { Abi } from "viem";
+import { UnknownSolverError } from "./errors";
+import { BUNGEE_ROUTER_ABI, ENSO_ROUTER_ABI, LIFI_ROUTER_ABI } from "./utils";
+
+export interface SolverAbiEntry {
+  abi: Abi;
+  //router addresses per chain id, matched when Brian relabels a solver
+  routers?: Record<number, string[]>;
+}
+
+export interface SolverRouter {
+  chainId: number;
+  address: string;
+}
+
+//"LI.FI", "LiFi" and "lifi" all name the same solver
+const normalizeSolver = (solver: string) =>
+  solver.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+const MAINNET_CHAIN_IDS = [1, 8453, 42161, 137];
+
+//the routers are deployed at the same address on every supported mainnet
+const onMainnets = (address: string): Record<number, string[]> =>
+  Object.fromEntries(MAINNET_CHAIN_IDS.map((chainId) => [chainId, [address]]));
+
+/**
+ * ABIs of the routers Brian's solvers send swaps and bridges through, by
+ * solver name. Register new solvers here instead of writing a handler.
+ */
+export class SolverAbiRegistry {
+  private readonly entries = new Map<
+    string,
+    SolverAbiEntry & { solver: string }
+  >();
+
+  constructor(entries: Record<string, SolverAbiEntry> = {}) {
+    for (const [solver, entry] of Object.entries(entries)) {
+      this.register(solver, entry);
+    }
+  }
+
+  register(solver: string, entry: SolverAbiEntry): this {
+    this.entries.set(normalizeSolver(solver), { ...entry, solver });
+    return this;
+  }
+
+  unregister(solver: string): boolean {
+    return this.entries.delete(normalizeSolver(solver));
+  }
+
+  get(solver: string): SolverAbiEntry | undefined {
+    return this.entries.get(normalizeSolver(solver));
+  }
+
+  has(solver: string): boolean {
+    return this.entries.has(normalizeSolver(solver));
+  }
+
+  solvers(): string[] {
+    return [...this.entries.values()].map(({ solver }) => solver);
+  }
+
+  abis(): Abi[] {
+    return [...this.entries.values()].map(({ abi }) => abi);
+  }
+
+  /**
+   * Looks the solver up by name, then by the router its step calls.
+   */
+  resolve(solver: string, router?: SolverRouter): Abi {
+    const entry =
+      this.get(solver) ??
+      (router &&
+        [...this.entries.values()].find(({ routers }) =>
+          routers?.[router.chainId]?.some(
+            (address) => address.toLowerCase() === router.address.toLowerCase()
+          )
+        ));
+    if (!entry) {
+      throw new UnknownSolverError(solver, router);
+    }
+    return entry.abi;
+  }
+}
+
+export const solverAbiRegistry = new SolverAbiRegistry({
+  Enso: {
+    abi: ENSO_ROUTER_ABI,
+    routers: onMainnets("0x80EbA3855878739F4710233A8a19d89Bdd2ffB8E"),
+  },
+  Bungee: {
+    abi: BUNGEE_ROUTER_ABI,
+    routers: onMainnets("0x3a23F943181408EAC424116Af7b7790c94Cb97a5"),
+  },
+  "LI.FI": {
+    abi: LIFI_ROUTER_ABI,
+    routers: onMainnets("0x1231DEB6f5749EF6cE6943a275A1D3E7486F4EaE"),
+  },
+});
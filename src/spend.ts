@@ -0,0 +1,144 @@
+import type { TransactionResult } from "@brian-ai/sdk";
+import { UnknownSpendError } from "./errors";
+import { ActionStep, NULL_ADDRESS } from "./handlers";
+
+//Enso's placeholder for the native token, paid through the call's value
+const ENSO_NATIVE_TOKEN = "0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee";
+
+//methods of the bundled routers that hand tokens to the caller
+const NON_PULLING_METHODS = ["borrow", "withdraw"];
+
+const isNativeToken = (token: string) =>
+  [NULL_ADDRESS, ENSO_NATIVE_TOKEN].includes(token.toLowerCase());
+
+/**
+ * Tokens and amounts a router call pulls from the caller, read from its
+ * decoded arguments, with the native token as `NULL_ADDRESS`. `undefined`
+ * when the call is not one of the bundled router functions, so what it pulls
+ * cannot be read.
+ */
+export function getPulledAmounts(
+  step: ActionStep
+): [string, string][] | undefined {
+  return readPulledAmounts(step)?.map(([token, amount]) => [
+    isNativeToken(token) ? NULL_ADDRESS : token,
+    amount,
+  ]);
+}
+
+function readPulledAmounts(step: ActionStep): [string, string][] | undefined {
+  if (step.type !== "invoke" || NON_PULLING_METHODS.includes(step.method)) {
+    return [];
+  }
+  const { tokenIn, amountIn, tokensIn, asset, amount, _swapData } = step.args;
+  //Enso routeSingle and safeRouteSingle
+  if (tokenIn !== undefined && amountIn !== undefined) {
+    return [[tokenIn, amountIn]];
+  }
+  //Enso routeMulti and safeRouteMulti
+  if (Array.isArray(tokensIn)) {
+    return tokensIn.map(
+      ({ token, amount }: { token: string; amount: string }) => [
+        token,
+        amount,
+      ]
+    );
+  }
+  //AAVE supply and repay
+  if (asset !== undefined && amount !== undefined) {
+    return [[asset, amount]];
+  }
+  //LI.FI swaps: only the first swap spends the caller's tokens
+  const swap = Array.isArray(_swapData) ? _swapData[0] : _swapData;
+  if (swap?.sendingAssetId !== undefined) {
+    return [[swap.sendingAssetId, swap.fromAmount]];
+  }
+  return undefined;
+}
+
+/**
+ * Amounts an action spends, keyed by lowercase token address. Native value
+ * is keyed by `NULL_ADDRESS`.
+ *
+ * Native value is read from each step, ERC-20 transfers from their `amount`
+ * argument and router calls from the tokens their calldata pulls. Brian's
+ * `fromAmount` of an ERC-20 `fromToken` only stands in for router calls
+ * whose calldata cannot be read; if neither gives the amount of an ERC-20
+ * router call, an `UnknownSpendError` is thrown instead of counting nothing.
+ * Approvals are only counted in actions that call no router.
+ */
+export function getTokenSpend(
+  result: TransactionResult,
+  steps: ActionStep[]
+): Map<string, bigint> {
+  const spend = new Map<string, bigint>();
+  const add = (token: string, amount: bigint) => {
+    const key = token.toLowerCase();
+    spend.set(key, (spend.get(key) ?? 0n) + amount);
+  };
+  const { fromAmount, fromToken } = result.data;
+  const quotedToken =
+    fromToken && !isNativeToken(fromToken.address)
+      ? fromToken.address.toLowerCase()
+      : undefined;
+  const isRouterCall = (step: ActionStep) =>
+    step.type === "invoke" &&
+    step.role === "main" &&
+    step.method !== "transfer";
+  const callsRouter = steps.some(isRouterCall);
+  let unreadCall: ActionStep | undefined;
+
+  for (const step of steps) {
+    if (step.type === "transfer") {
+      add(NULL_ADDRESS, step.amount);
+      continue;
+    }
+    if (step.amount) {
+      add(NULL_ADDRESS, step.amount);
+    }
+    if (step.role === "approve" && step.method === "approve") {
+      if (callsRouter) {
+        //counted from the router call instead
+        continue;
+      }
+      const token = step.contractAddress.toLowerCase();
+      let amount = BigInt(step.args.amount);
+      if (token === quotedToken && fromAmount !== undefined) {
+        const quoted = BigInt(fromAmount);
+        amount = quoted < amount ? quoted : amount;
+      }
+      add(token, amount);
+    } else if (
+      step.role === "main" &&
+      step.method === "transfer" &&
+      step.args.amount !== undefined
+    ) {
+      add(step.contractAddress, BigInt(step.args.amount));
+    } else if (isRouterCall(step)) {
+      const pulled = getPulledAmounts(step);
+      if (pulled === undefined) {
+        unreadCall ??= step;
+        continue;
+      }
+      for (const [token, amount] of pulled) {
+        //native value is counted from the step itself
+        if (token !== NULL_ADDRESS) {
+          add(token, BigInt(amount));
+        }
+      }
+    }
+  }
+
+  if (unreadCall?.type === "invoke") {
+    if (quotedToken && fromAmount !== undefined) {
+      add(quotedToken, BigInt(fromAmount));
+    } else if (quotedToken || steps.some(({ role }) => role === "approve")) {
+      throw new UnknownSpendError(
+        result.action,
+        unreadCall.contractAddress,
+        `Cannot tell how much the ${result.action} action's call to ${unreadCall.contractAddress} spends`
+      );
+    }
+  }
+  return spend;
+}
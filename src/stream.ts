@@ -0,0 +1,82 @@
+import { StepEvent, TransactEventEmitter } from "./events";
+import { PlannedAction } from "./plan";
+import { TransactResult } from "./result";
+
+export type TransactStreamRecord =
+  | { type: "decoded"; executionId: string; actions: PlannedAction[] }
+  | (StepEvent & { type: "submitted"; transactionHash?: string })
+  | (StepEvent & { type: "confirmed" })
+  | (StepEvent & { type: "skipped" })
+  | (StepEvent & { type: "failed"; error: unknown });
+
+/**
+ * Yields the progress of the execution started by `run` as it happens.
+ * Leaving the loop early aborts the signal handed to `run`, so no further
+ * steps are submitted.
+ */
+export async function* streamExecution(
+  events: TransactEventEmitter,
+  executionId: string,
+  run: (signal: AbortSignal) => Promise<TransactResult>
+): AsyncGenerator<TransactStreamRecord, TransactResult> {
+  const controller = new AbortController();
+  const queue: TransactStreamRecord[] = [];
+  let wake: (() => void) | undefined;
+  const push = (id: string | undefined, record: TransactStreamRecord) => {
+    if (id === executionId) {
+      queue.push(record);
+      wake?.();
+    }
+  };
+  const unsubscribe = [
+    events.on("plan:decoded", ({ executionId: id, actions }) =>
+      push(id, { type: "decoded", executionId, actions })
+    ),
+    events.on("step:submitted", (event) =>
+      push(event.executionId, { ...event, type: "submitted" })
+    ),
+    events.on("step:confirmed", (event) =>
+      push(event.executionId, { ...event, type: "confirmed" })
+    ),
+    events.on("step:skipped", (event) =>
+      push(event.executionId, { ...event, type: "skipped" })
+    ),
+    events.on("step:failed", (event) =>
+      push(event.executionId, { ...event, type: "failed" })
+    ),
+  ];
+
+  let outcome: { result: TransactResult } | { error: unknown } | undefined;
+  run(controller.signal).then(
+    (result) => {
+      outcome = { result };
+      wake?.();
+    },
+    (error) => {
+      outcome = { error };
+      wake?.();
+    }
+  );
+
+  try {
+    while (true) {
+      if (queue.length > 0) {
+        yield queue.shift()!;
+        continue;
+      }
+      if (outcome) {
+        break;
+      }
+      await new Promise<void>((resolve) => (wake = resolve));
+      wake = undefined;
+    }
+    if ("error" in outcome) {
+      throw outcome.error;
+    }
+    return outcome.result;
+  } finally {
+    unsubscribe.forEach((off) => off());
+    //a step already broadcast keeps confirming in the background
+    controller.abort();
+  }
+}
@@ -1,4 +1,12 @@
-import { Abi, AbiFunction, decodeFunctionData } from "viem";
+import {
+  Abi,
+  AbiFunction,
+  AbiParameter,
+  decodeFunctionData,
+  erc20Abi,
+  toFunctionSelector,
+} from "viem";
+import { CalldataDecodeError } from "./errors";
 
 // Swap/Bridge Routers
 export const ENSO_ROUTER_ABI = [
@@ -5803,22 +5811,56 @@ export const AAVE_V3_L2_POOL_ABI = [
   },
 ] as const;
 
+export const BUNDLED_ABIS: Record<string, Abi> = {
+  ERC20_ABI: erc20Abi,
+  ENSO_ROUTER_ABI,
+  BUNGEE_ROUTER_ABI,
+  LIFI_ROUTER_ABI,
+  WETH_ABI,
+  LIDO_ABI,
+  ENS_REGISTRAR_CONTROLLER_ABI,
+  AAVE_V3_L1_POOL_ABI,
+  AAVE_V3_L2_POOL_ABI,
+};
+
+export function getAbiName(abi: Abi): string | undefined {
+  return Object.keys(BUNDLED_ABIS).find((name) => BUNDLED_ABIS[name] === abi);
+}
+
 export function decodeFunctionDataForCdp(
   abi: Abi,
   data: `0x${string}`
 ): [Record<string, any>, string] {
-  const { args, functionName } = decodeFunctionData({ abi, data });
+  const selector = data.slice(0, 10).toLowerCase();
+  const abiName = getAbiName(abi);
+  let decoded: { args?: readonly unknown[]; functionName: string };
+  try {
+    decoded = decodeFunctionData({ abi, data });
+  } catch (error) {
+    throw new CalldataDecodeError(
+      `Could not decode calldata with selector ${selector}${
+        abiName ? ` using ${abiName}` : ""
+      }`,
+      { selector, abiName, cause: error }
+    );
+  }
+  const { args, functionName } = decoded;
 
   if (!args || args.length === 0) {
     return [{}, functionName];
   }
 
-  const abiFunction = abi
-    .filter((item) => item.type === "function")
-    .find((f: AbiFunction) => f.name === functionName);
+  //overloads share a name, only the selector tells them apart
+  const abiFunction = abi.find(
+    (item): item is AbiFunction =>
+      item.type === "function" && toFunctionSelector(item) === selector
+  );
 
   if (!abiFunction) {
-    throw new Error("Function not found in ABI");
+    throw new CalldataDecodeError("Function not found in ABI", {
+      selector,
+      abiName,
+    });
   }
 
   const inputs = abiFunction.inputs || [];
@@ -5830,16 +5872,39 @@ export function decodeFunctionDataForCdp(
   const result: Record<string, any> = {};
 
   inputs.forEach((input, index) => {
-    if (typeof args[index] === "bigint") {
-      result[input.name!] = args[index].toString();
-    } else if (typeof args[index] === "object" && args[index] !== null) {
-      result[input.name!] = Object.keys(args[index] as object).map((key) =>
-        (args[index] as any)[key].toString()
-      );
-    } else {
-      result[input.name!] = args[index] as any;
-    }
+    result[input.name ?? ""] = toCdpArgument(input, args[index]);
   });
 
   return [result, functionName];
 }
+
+/**
+ * Converts a viem-decoded argument into the shape `invokeContract` expects:
+ * integers become decimal strings, tuples become objects keyed by component
+ * name and arrays are converted element by element. Addresses, bytes,
+ * strings and bools are passed through unchanged.
+ */
+function toCdpArgument(param: AbiParameter, value: unknown): any {
+  const array = param.type.match(/^(.*)\[\d*\]$/);
+  if (array) {
+    //`tuple[2][]` is an array of `tuple[2]`, which is an array of `tuple`
+    const element = { ...param, type: array[1] } as AbiParameter;
+    return (value as readonly unknown[]).map((item) =>
+      toCdpArgument(element, item)
+    );
+  }
+  if (param.type === "tuple" && "components" in param) {
+    //viem decodes tuples with unnamed components as arrays
+    return Object.fromEntries(
+      param.components.map((component, index) => {
+        const key = component.name || String(index);
+        const item = Array.isArray(value)
+          ? value[index]
+          : (value as Record<string, unknown>)[key];
+        return [key, toCdpArgument(component, item)];
+      })
+    );
+  }
+  //viem decodes integers of up to 48 bits as numbers
+  return /^u?int\d*$/.test(param.type) ? String(value) : value;
+}
@@ -0,0 +1,40 @@
+import { describe, test, expect } from "@jest/globals";
+import { combineSignals, raceAbort, sleep } from "../src/abort";
+
+describe("combineSignals", () => {
+  test("aborts when any signal aborts", () => {
+    const first = new AbortController();
+    const second = new AbortController();
+    const signal = combineSignals([first.signal, undefined, second.signal])!;
+    expect(signal.aborted).toBe(false);
+    second.abort(new Error("stop"));
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toEqual(new Error("stop"));
+  });
+
+  test("aborts once the timeout passes", async () => {
+    const signal = combineSignals([], 10)!;
+    await sleep(50);
+    expect(signal.aborted).toBe(true);
+  });
+
+  test("returns nothing without signals or timeout", () => {
+    expect(combineSignals([undefined])).toBeUndefined();
+  });
+});
+
+describe("raceAbort", () => {
+  test("rejects with the abort reason", async () => {
+    const controller = new AbortController();
+    const pending = raceAbort(new Promise(() => {}), controller.signal);
+    controller.abort(new Error("cancelled"));
+    await expect(pending).rejects.toThrowError("cancelled");
+  });
+
+  test("resolves when the promise settles first", async () => {
+    const controller = new AbortController();
+    await expect(
+      raceAbort(Promise.resolve("done"), controller.signal)
+    ).resolves.toBe("done");
+  });
+});
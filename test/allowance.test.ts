@@ -0,0 +1,55 @@
+import { describe, test, expect } from "@jest/globals";
+import { erc20Abi } from "viem";
+import { ContractReader, getSufficientAllowance } from "../src/allowance";
+import { ActionStep } from "../src/handlers";
+
+const OWNER = "0x1111111111111111111111111111111111111111";
+const SPENDER = "0x80EbA3855878739F4710233A8a19d89Bdd2ffB8E";
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+
+const approveStep: ActionStep = {
+  type: "invoke",
+  role: "approve",
+  contractAddress: USDC,
+  method: "approve",
+  abi: erc20Abi,
+  args: { spender: SPENDER, amount: "1000000" },
+  step: {} as any,
+};
+
+const readerReturning = (allowance: bigint): ContractReader => ({
+  readContract: async () => allowance,
+});
+
+describe("getSufficientAllowance", () => {
+  test("returns the allowance when it covers the approval", async () => {
+    const reads: unknown[] = [];
+    const reader: ContractReader = {
+      readContract: async (params) => {
+        reads.push(params);
+        return 2000000n;
+      },
+    };
+    expect(
+      await getSufficientAllowance(reader, "base-mainnet", OWNER, approveStep)
+    ).toBe(2000000n);
+    expect(reads).toEqual([
+      expect.objectContaining({
+        contractAddress: USDC,
+        method: "allowance",
+        args: { owner: OWNER, spender: SPENDER },
+      }),
+    ]);
+  });
+
+  test("returns undefined when more has to be approved", async () => {
+    expect(
+      await getSufficientAllowance(
+        readerReturning(999999n),
+        "base-mainnet",
+        OWNER,
+        approveStep
+      )
+    ).toBeUndefined();
+  });
+});
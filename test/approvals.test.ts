@@ -0,0 +1,121 @@
+import { describe, test, expect } from "@jest/globals";
+import type { TransactionResult } from "@brian-ai/sdk";
+import { decodeFunctionData, encodeFunctionData, erc20Abi } from "viem";
+import { applyApprovalPolicy } from "../src/approvals";
+import { ApprovalCapError } from "../src/errors";
+import { ActionStep, decodeInvokeStep } from "../src/handlers";
+import { ENSO_ROUTER_ABI } from "../src/utils";
+
+const USER = "0x1111111111111111111111111111111111111111";
+const SPENDER = "0x80EbA3855878739F4710233A8a19d89Bdd2ffB8E";
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const MAX_UINT256 = 2n ** 256n - 1n;
+
+const approveStep = decodeInvokeStep(
+  erc20Abi,
+  {
+    chainId: 8453,
+    from: USER,
+    to: USDC,
+    value: "0",
+    data: encodeFunctionData({
+      abi: erc20Abi,
+      functionName: "approve",
+      args: [SPENDER, MAX_UINT256],
+    }),
+  },
+  { role: "approve", withValue: false }
+);
+const mainStep = { role: "main" } as ActionStep;
+
+const result: TransactionResult = {
+  type: "write",
+  action: "swap",
+  solver: "Enso",
+  data: {
+    description: "swap 1 USDC to ETH",
+    fromAmount: "1000000",
+    fromToken: {
+      address: USDC,
+      chainId: 8453,
+      symbol: "USDC",
+      decimals: 6,
+      name: "USD Coin",
+    },
+  },
+};
+
+describe("applyApprovalPolicy", () => {
+  test("leaves approvals untouched as provided", () => {
+    const steps = [approveStep, mainStep];
+    expect(applyApprovalPolicy(result, steps, "asProvided")).toBe(steps);
+  });
+
+  test("caps approvals at the spent amount", () => {
+    const [approve, main] = applyApprovalPolicy(
+      result,
+      [approveStep, mainStep],
+      "exact"
+    );
+    expect(approve).toMatchObject({
+      role: "approve",
+      args: { spender: SPENDER, amount: "1000000" },
+    });
+    expect(
+      decodeFunctionData({ abi: erc20Abi, data: approve.step.data }).args
+    ).toEqual([SPENDER, 1000000n]);
+    expect(main).toBe(mainStep);
+  });
+
+  test("caps approvals at what the decoded router call pulls", () => {
+    const routeStep = decodeInvokeStep(ENSO_ROUTER_ABI, {
+      chainId: 8453,
+      from: USER,
+      to: SPENDER,
+      value: "0",
+      data: encodeFunctionData({
+        abi: ENSO_ROUTER_ABI,
+        functionName: "routeSingle",
+        args: [USDC, 250000n, [], []],
+      }),
+    });
+    const [approve] = applyApprovalPolicy(
+      { ...result, data: { description: "swap USDC to ETH" } },
+      [approveStep, routeStep],
+      "exact"
+    );
+    expect(approve).toMatchObject({
+      args: { spender: SPENDER, amount: "250000" },
+    });
+  });
+
+  test("refuses approvals it cannot cap", () => {
+    const unquoted: TransactionResult = {
+      ...result,
+      data: { ...result.data, fromAmount: undefined },
+    };
+    for (const policy of ["exact", "exactAndRevoke"] as const) {
+      expect(() =>
+        applyApprovalPolicy(unquoted, [approveStep, mainStep], policy)
+      ).toThrowError(ApprovalCapError);
+    }
+  });
+
+  test("appends a revoke after the action", () => {
+    const steps = applyApprovalPolicy(
+      result,
+      [approveStep, mainStep],
+      "exactAndRevoke"
+    );
+    expect(steps.map(({ role }) => role)).toEqual([
+      "approve",
+      "main",
+      "revoke",
+    ]);
+    expect(steps[2]).toMatchObject({
+      contractAddress: USDC,
+      method: "approve",
+      args: { spender: SPENDER, amount: "0" },
+    });
+  });
+});
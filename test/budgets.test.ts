@@ -0,0 +1,104 @@
+import { describe, test, expect } from "@jest/globals";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { BudgetTracker, FileSpendStore } from "../src/budgets";
+import { NULL_ADDRESS } from "../src/handlers";
+
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const DAY = 24 * 60 * 60 * 1000;
+
+const budgets = [
+  { token: NULL_ADDRESS, limit: 5n * 10n ** 17n, windowMs: DAY },
+  { token: USDC, limit: "1000000000", windowMs: DAY },
+];
+
+describe("BudgetTracker", () => {
+  test("counts recorded spend inside the window only", async () => {
+    const tracker = new BudgetTracker(budgets);
+    const now = new Date("2024-01-02T00:00:00.000Z");
+    await tracker.record(
+      "wallet-1",
+      "exec-1",
+      "swap",
+      new Map([[USDC.toLowerCase(), 900000000n]]),
+      new Date(now.getTime() - 2 * DAY)
+    );
+    await tracker.record(
+      "wallet-1",
+      "exec-2",
+      "swap",
+      new Map([[USDC.toLowerCase(), 600000000n]]),
+      new Date(now.getTime() - 60000)
+    );
+
+    const request = new Map([[USDC.toLowerCase(), 500000000n]]);
+    expect(await tracker.check("wallet-1", request, now)).toEqual([
+      {
+        token: USDC,
+        limit: 1000000000n,
+        windowMs: DAY,
+        spent: 600000000n,
+        requested: 500000000n,
+      },
+    ]);
+    expect(await tracker.check("wallet-2", request, now)).toEqual([]);
+  });
+
+  test("holds reserved spend until it is recorded or released", async () => {
+    const tracker = new BudgetTracker(budgets);
+    const request = new Map([[USDC.toLowerCase(), 600000000n]]);
+
+    //two runs checked at once cannot both take the budget
+    const [first, second] = await Promise.all([
+      tracker.reserve("wallet-1", "exec-1", request),
+      tracker.reserve("wallet-1", "exec-2", request),
+    ]);
+    expect(first).toEqual([]);
+    expect(second).toEqual([
+      expect.objectContaining({ spent: 600000000n, requested: 600000000n }),
+    ]);
+
+    //recording turns the reservation into spend instead of adding to it
+    await tracker.record("wallet-1", "exec-1", "swap", request);
+    await tracker.release("exec-1");
+    expect(
+      await tracker.check(
+        "wallet-1",
+        new Map([[USDC.toLowerCase(), 400000000n]])
+      )
+    ).toEqual([]);
+
+    await tracker.reserve("wallet-2", "exec-3", request);
+    await tracker.release("exec-3");
+    expect(await tracker.reserve("wallet-2", "exec-4", request)).toEqual([]);
+  });
+
+  test("only tracks spending actions by default", () => {
+    const tracker = new BudgetTracker(budgets);
+    expect(tracker.tracks("swap")).toBe(true);
+    expect(tracker.tracks("ENS Renewal")).toBe(false);
+  });
+
+  test("file store keeps spend across instances", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "budgets-"));
+    const filePath = join(directory, "spend.jsonl");
+    try {
+      await new BudgetTracker(budgets, new FileSpendStore(filePath)).record(
+        "wallet-1",
+        "exec-1",
+        "transfer",
+        new Map([[NULL_ADDRESS, 4n * 10n ** 17n]])
+      );
+      const tracker = new BudgetTracker(budgets, new FileSpendStore(filePath));
+      const violations = await tracker.check(
+        "wallet-1",
+        new Map([[NULL_ADDRESS, 2n * 10n ** 17n]])
+      );
+      expect(violations).toHaveLength(1);
+      expect(violations[0].spent).toBe(4n * 10n ** 17n);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, test, expect } from "@jest/globals";
+import { getChainIdForNetwork } from "../src/chains";
+
+describe("getChainIdForNetwork", () => {
+  test("maps CDP networks to Brian chain ids", () => {
+    expect(getChainIdForNetwork("base-mainnet")).toBe(8453);
+    expect(getChainIdForNetwork("base-sepolia")).toBe(84532);
+    expect(getChainIdForNetwork("ethereum-mainnet")).toBe(1);
+    expect(getChainIdForNetwork("arbitrum-mainnet")).toBe(42161);
+    expect(getChainIdForNetwork("polygon-mainnet")).toBe(137);
+  });
+
+  test("rejects networks Brian cannot quote on", () => {
+    expect(() => getChainIdForNetwork("solana-mainnet")).toThrowError(
+      "Network solana-mainnet has no Brian-supported chain"
+    );
+  });
+});
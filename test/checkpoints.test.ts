@@ -0,0 +1,88 @@
+import { describe, test, expect } from "@jest/globals";
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  ExecutionCheckpoint,
+  FileCheckpointStore,
+  InMemoryCheckpointStore,
+  toCheckpointResult,
+} from "../src/checkpoints";
+import { TransactResult } from "../src/result";
+
+const result: TransactResult = {
+  executionId: "exec-1",
+  actions: [
+    {
+      action: "swap",
+      solver: "Enso",
+      description: "swap 1 USDC to ETH",
+      status: "failed",
+      steps: [
+        {
+          type: "invoke",
+          role: "approve",
+          chainId: 8453,
+          to: "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913",
+          method: "approve",
+          value: "0",
+          status: "complete",
+          transactionHash: "0xabc",
+          startedAt: "2024-01-01T00:00:00.000Z",
+          transaction: {} as any,
+        },
+      ],
+    },
+  ],
+};
+
+const checkpoint: ExecutionCheckpoint = {
+  executionId: "exec-1",
+  plan: {} as any,
+  result: toCheckpointResult(result),
+  status: "failed",
+  updatedAt: "2024-01-01T00:00:00.000Z",
+};
+
+describe("checkpoints", () => {
+  test("strips CDP objects from persisted results", () => {
+    expect(checkpoint.result.actions[0].steps[0]).not.toHaveProperty(
+      "transaction"
+    );
+    expect(checkpoint.result.actions[0].steps[0].transactionHash).toBe("0xabc");
+  });
+
+  test("in-memory store returns copies", async () => {
+    const store = new InMemoryCheckpointStore();
+    await store.save(checkpoint);
+    const loaded = await store.get("exec-1");
+    expect(loaded).toEqual(checkpoint);
+    expect(loaded).not.toBe(checkpoint);
+  });
+
+  test("file store survives a new instance", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "checkpoints-"));
+    try {
+      await new FileCheckpointStore(directory).save(checkpoint);
+      const store = new FileCheckpointStore(directory);
+      expect(await store.get("exec-1")).toEqual(checkpoint);
+      await store.delete("exec-1");
+      expect(await store.get("exec-1")).toBeUndefined();
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  test("file store replaces checkpoints whole", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "checkpoints-"));
+    try {
+      const store = new FileCheckpointStore(directory);
+      await store.save({ ...checkpoint, status: "running" });
+      await store.save(checkpoint);
+      expect(await readdir(directory)).toEqual(["exec-1.json"]);
+      expect(await store.get("exec-1")).toEqual(checkpoint);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, test, expect } from "@jest/globals";
+import { ContractReader, ReadContractParams } from "../src/allowance";
+import {
+  CommitmentScheduler,
+  ENS_COMMITMENT_MARGIN_MS,
+  waitForCommitment,
+} from "../src/ens";
+import { EnsCommitmentError } from "../src/errors";
+
+const CONTROLLER = "0x253553366Da8546fC250F225fe3d25d0C782303b";
+const COMMITMENT =
+  "0x1111111111111111111111111111111111111111111111111111111111111111";
+
+//a clock that only moves when the SDK waits
+const fakeScheduler = (start: number) => {
+  const waits: number[] = [];
+  let now = start;
+  const scheduler: CommitmentScheduler = {
+    now: () => now,
+    wait: async (ms) => {
+      waits.push(ms);
+      now += ms;
+    },
+  };
+  return { scheduler, waits };
+};
+
+const fakeReader = (
+  commitments: (call: number) => bigint
+): ContractReader & { calls: ReadContractParams[] } => {
+  const calls: ReadContractParams[] = [];
+  let commitmentReads = 0;
+  return {
+    calls,
+    async readContract(params) {
+      calls.push(params);
+      if (params.method === "minCommitmentAge") {
+        return 60n;
+      }
+      if (params.method === "maxCommitmentAge") {
+        return 86400n;
+      }
+      return commitments(commitmentReads++);
+    },
+  };
+};
+
+const params = { networkId: "base-mainnet", controller: CONTROLLER } as const;
+
+describe("waitForCommitment", () => {
+  test("waits until the on-chain commitment is old enough", async () => {
+    const committedAt = 1_700_000_000;
+    const { scheduler, waits } = fakeScheduler(committedAt * 1000 + 10_000);
+    const reader = fakeReader(() => BigInt(committedAt));
+
+    await waitForCommitment({
+      ...params,
+      reader,
+      scheduler,
+      commitment: COMMITMENT,
+    });
+    expect(waits).toEqual([50_000 + ENS_COMMITMENT_MARGIN_MS]);
+    expect(reader.calls.at(-1)).toMatchObject({
+      method: "commitments",
+      args: { "": COMMITMENT },
+    });
+  });
+
+  test("keeps polling until the commitment shows up", async () => {
+    const committedAt = 1_700_000_000;
+    const { scheduler, waits } = fakeScheduler(committedAt * 1000);
+    const reader = fakeReader((call) => (call < 2 ? 0n : BigInt(committedAt)));
+
+    await waitForCommitment({
+      ...params,
+      reader,
+      scheduler,
+      commitment: COMMITMENT,
+    });
+    expect(waits).toHaveLength(3);
+  });
+
+  test("fails once the commitment passed its maximum age", async () => {
+    const committedAt = 1_700_000_000;
+    const { scheduler } = fakeScheduler((committedAt + 86401) * 1000);
+    const waiting = waitForCommitment({
+      ...params,
+      reader: fakeReader(() => BigInt(committedAt)),
+      scheduler,
+      commitment: COMMITMENT,
+    });
+    await expect(waiting).rejects.toThrowError(EnsCommitmentError);
+    await expect(waiting).rejects.toThrowError("expired after 86400s");
+  });
+
+  test("stops waiting when aborted", async () => {
+    const controller = new AbortController();
+    const waiting = waitForCommitment({
+      ...params,
+      reader: fakeReader(() => BigInt(Math.floor(Date.now() / 1000))),
+      commitment: COMMITMENT,
+      signal: controller.signal,
+    });
+    setTimeout(() => controller.abort(new Error("cancelled")), 10);
+    await expect(waiting).rejects.toThrowError("cancelled");
+  });
+});
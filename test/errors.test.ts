@@ -0,0 +1,67 @@
+import { describe, test, expect } from "@jest/globals";
+import { encodeFunctionData, erc20Abi } from "viem";
+import { getChainIdForNetwork } from "../src/chains";
+import {
+  BrianCoinbaseSDKError,
+  CalldataDecodeError,
+  UnsupportedActionError,
+  WrongNetworkError,
+} from "../src/errors";
+import { ActionHandlerRegistry } from "../src/handlers";
+import { decodeFunctionDataForCdp, ENSO_ROUTER_ABI } from "../src/utils";
+
+const catchError = (run: () => unknown): unknown => {
+  try {
+    run();
+  } catch (error) {
+    return error;
+  }
+  throw new Error("Expected an error");
+};
+
+describe("error hierarchy", () => {
+  test("reports calldata that does not match the ABI", () => {
+    const data = encodeFunctionData({
+      abi: erc20Abi,
+      functionName: "approve",
+      args: ["0x1111111111111111111111111111111111111111", 1n],
+    });
+    const error = catchError(() =>
+      decodeFunctionDataForCdp(ENSO_ROUTER_ABI, data)
+    );
+    expect(error).toBeInstanceOf(CalldataDecodeError);
+    expect(error).toBeInstanceOf(BrianCoinbaseSDKError);
+    expect(error).toMatchObject({
+      code: "CALLDATA_DECODE_FAILED",
+      selector: "0x095ea7b3",
+      abiName: "ENSO_ROUTER_ABI",
+    });
+  });
+
+  test("reports unsupported networks and actions", () => {
+    expect(catchError(() => getChainIdForNetwork("solana-mainnet"))).toEqual(
+      expect.objectContaining({
+        name: "WrongNetworkError",
+        code: "WRONG_NETWORK",
+        networkId: "solana-mainnet",
+      })
+    );
+    const error = catchError(() =>
+      new ActionHandlerRegistry().wrap("stake", (handler) => handler)
+    );
+    expect(error).toBeInstanceOf(UnsupportedActionError);
+    expect(error).toMatchObject({
+      code: "UNSUPPORTED_ACTION",
+      action: "stake",
+    });
+  });
+
+  test("keeps the original message", () => {
+    const error = new WrongNetworkError(
+      "base-mainnet",
+      "Wallet is not on Sepolia"
+    );
+    expect(error.message).toBe("Wallet is not on Sepolia");
+    expect(error).toBeInstanceOf(Error);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, test, expect } from "@jest/globals";
+import { TransactEventEmitter } from "../src/events";
+
+const waitEvent = { executionId: "exec-1", waitMs: 60000 };
+
+describe("TransactEventEmitter", () => {
+  test("delivers payloads until the listener is removed", () => {
+    const events = new TransactEventEmitter();
+    const received: number[] = [];
+    const off = events.on("ens:commitment-wait", ({ waitMs }) =>
+      received.push(waitMs)
+    );
+    events.emit("ens:commitment-wait", waitEvent);
+    off();
+    events.emit("ens:commitment-wait", waitEvent);
+    expect(received).toEqual([60000]);
+  });
+
+  test("once listeners fire a single time", () => {
+    const events = new TransactEventEmitter();
+    let calls = 0;
+    events.once("ens:commitment-wait", () => calls++);
+    events.emit("ens:commitment-wait", waitEvent);
+    events.emit("ens:commitment-wait", waitEvent);
+    expect(calls).toBe(1);
+  });
+
+  test("a throwing listener does not stop the others", () => {
+    const events = new TransactEventEmitter();
+    let delivered = false;
+    events.on("ens:commitment-wait", () => {
+      throw new Error("listener failed");
+    });
+    events.on("ens:commitment-wait", () => {
+      delivered = true;
+    });
+    expect(() => events.emit("ens:commitment-wait", waitEvent)).not.toThrow();
+    expect(delivered).toBe(true);
+  });
+});
@@ -0,0 +1,224 @@
+import { describe, test, expect } from "@jest/globals";
+import type { TransactionResult } from "@brian-ai/sdk";
+import { encodeFunctionData, erc20Abi } from "viem";
+import {
+  ActionContext,
+  ActionHandlerRegistry,
+  defaultActionHandlers,
+  genericActionHandler,
+} from "../src/handlers";
+import { UnknownSolverError } from "../src/errors";
+import { ENSO_ROUTER_ABI } from "../src/utils";
+
+const USER = "0x1111111111111111111111111111111111111111";
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const ENSO_ROUTER = "0x80EbA3855878739F4710233A8a19d89Bdd2ffB8E";
+const NEW_ROUTER = "0x2222222222222222222222222222222222222222";
+
+const context = {} as ActionContext;
+
+const swapResult: TransactionResult = {
+  type: "write",
+  action: "swap",
+  solver: "Enso",
+  data: {
+    description: "swap 1 USDC to ETH",
+    steps: [
+      {
+        chainId: 8453,
+        from: USER,
+        to: USDC,
+        value: "0",
+        data: encodeFunctionData({
+          abi: erc20Abi,
+          functionName: "approve",
+          args: [ENSO_ROUTER, 1000000n],
+        }),
+      },
+      {
+        chainId: 8453,
+        from: USER,
+        to: ENSO_ROUTER,
+        value: "0",
+        data: encodeFunctionData({
+          abi: ENSO_ROUTER_ABI,
+          functionName: "routeSingle",
+          args: [USDC, 1000000n, [], []],
+        }),
+      },
+    ],
+  },
+};
+
+describe("ActionHandlerRegistry", () => {
+  test("registers the built-in actions", () => {
+    const registry = new ActionHandlerRegistry(defaultActionHandlers);
+    expect(registry.actions()).toEqual(
+      expect.arrayContaining([
+        "transfer",
+        "swap",
+        "bridge",
+        "deposit",
+        "withdraw",
+        "AAVE Borrow",
+        "AAVE Repay",
+        "ENS Registration",
+        "ENS Renewal",
+      ])
+    );
+  });
+
+  test("wraps an existing handler", () => {
+    const registry = new ActionHandlerRegistry(defaultActionHandlers);
+    registry.wrap("swap", (handler) => ({
+      decode: (result, ctx) => handler.decode(result, ctx).slice(1),
+    }));
+    const steps = registry.get("swap")!.decode(swapResult, context);
+    expect(steps).toHaveLength(1);
+  });
+
+  test("refuses to wrap an unknown action", () => {
+    const registry = new ActionHandlerRegistry();
+    expect(() => registry.wrap("swap", (handler) => handler)).toThrowError(
+      'No handler registered for action "swap"'
+    );
+  });
+});
+
+describe("default handlers", () => {
+  test("decodes the approval and the router call of a swap", () => {
+    const steps = defaultActionHandlers.swap.decode(swapResult, context);
+    expect(steps).toHaveLength(2);
+    expect(steps[0]).toMatchObject({
+      type: "invoke",
+      role: "approve",
+      contractAddress: USDC,
+      method: "approve",
+      args: { spender: ENSO_ROUTER, amount: "1000000" },
+      amount: undefined,
+    });
+    expect(steps[1]).toMatchObject({
+      type: "invoke",
+      role: "main",
+      contractAddress: ENSO_ROUTER,
+      method: "routeSingle",
+      abi: ENSO_ROUTER_ABI,
+      amount: 0n,
+    });
+  });
+
+  test("detects the router of a relabeled solver from its selector", () => {
+    const steps = defaultActionHandlers.swap.decode(
+      {
+        ...swapResult,
+        solver: "Enso v3",
+        data: {
+          ...swapResult.data,
+          steps: swapResult.data.steps!.map((step) => ({
+            ...step,
+            to: step.to === ENSO_ROUTER ? NEW_ROUTER : step.to,
+          })),
+        },
+      },
+      context
+    );
+    expect(steps[1]).toMatchObject({
+      contractAddress: NEW_ROUTER,
+      method: "routeSingle",
+      abi: ENSO_ROUTER_ABI,
+      args: { tokenIn: USDC, amountIn: "1000000" },
+    });
+  });
+
+  test("rejects unknown solvers whose calldata no ABI matches", () => {
+    const unknown: TransactionResult = {
+      ...swapResult,
+      solver: "Odos",
+      data: {
+        description: "unknown",
+        steps: [
+          {
+            chainId: 8453,
+            from: USER,
+            to: NEW_ROUTER,
+            value: "0",
+            data: "0xdeadbeef",
+          },
+        ],
+      },
+    };
+    expect(() =>
+      defaultActionHandlers.swap.decode(unknown, context)
+    ).toThrowError(UnknownSolverError);
+  });
+
+  test("sends native transfers through createTransfer", () => {
+    const steps = defaultActionHandlers.transfer.decode(
+      {
+        type: "write",
+        action: "transfer",
+        solver: "",
+        data: {
+          description: "send 1 wei",
+          fromToken: {
+            address: "0x0000000000000000000000000000000000000000",
+            chainId: 8453,
+            symbol: "ETH",
+            decimals: 18,
+            name: "Ether",
+          },
+          steps: [
+            { chainId: 8453, from: USER, to: USER, value: "1", data: "0x" },
+          ],
+        },
+      },
+      context
+    );
+    expect(steps).toEqual([
+      expect.objectContaining({
+        type: "transfer",
+        destination: USER,
+        amount: 1n,
+      }),
+    ]);
+  });
+});
+
+describe("genericActionHandler", () => {
+  test("decodes every step against the ABI of its selector", () => {
+    const steps = genericActionHandler.decode(swapResult, context);
+    expect(steps).toEqual([
+      expect.objectContaining({
+        role: "approve",
+        method: "approve",
+        abiName: "ERC20_ABI",
+      }),
+      expect.objectContaining({
+        role: "main",
+        method: "routeSingle",
+        abiName: "ENSO_ROUTER_ABI",
+      }),
+    ]);
+  });
+
+  test("rejects calldata no known ABI matches", () => {
+    const unknown: TransactionResult = {
+      ...swapResult,
+      data: {
+        description: "unknown",
+        steps: [
+          {
+            chainId: 8453,
+            from: USER,
+            to: USDC,
+            value: "0",
+            data: "0xdeadbeef",
+          },
+        ],
+      },
+    };
+    expect(() => genericActionHandler.decode(unknown, context)).toThrowError(
+      "No known ABI matches selector 0xdeadbeef"
+    );
+  });
+});
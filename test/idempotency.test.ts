@@ -0,0 +1,54 @@
+import { describe, test, expect } from "@jest/globals";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  FileIdempotencyStore,
+  IdempotencyStore,
+  InMemoryIdempotencyStore,
+} from "../src/idempotency";
+
+const record = (executionId: string) => ({
+  key: "order-42",
+  executionId,
+  createdAt: "2024-01-01T00:00:00.000Z",
+});
+
+const claimTwice = async (store: IdempotencyStore) => {
+  expect(await store.claim(record("exec-1"))).toBeUndefined();
+  expect(await store.claim(record("exec-2"))).toEqual(record("exec-1"));
+
+  await store.release("order-42");
+  expect(await store.claim(record("exec-3"))).toBeUndefined();
+};
+
+describe("InMemoryIdempotencyStore", () => {
+  test("keeps the first claim of a key until released", async () => {
+    await claimTwice(new InMemoryIdempotencyStore());
+  });
+});
+
+describe("FileIdempotencyStore", () => {
+  test("keeps the first claim of a key until released", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "idempotency-"));
+    try {
+      await claimTwice(new FileIdempotencyStore(join(directory, "keys")));
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+
+  test("lets only one of two concurrent claims win", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "idempotency-"));
+    try {
+      const store = new FileIdempotencyStore(directory);
+      const claims = await Promise.all([
+        store.claim(record("exec-1")),
+        store.claim(record("exec-2")),
+      ]);
+      expect(claims.filter((claim) => claim === undefined)).toHaveLength(1);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, test, expect, beforeAll } from "@jest/globals";
 import { BrianCoinbaseSDK, BrianCoinbaseSDKOptions } from "../src/sdk";
+import { toTransactionList } from "../src/result";
 import { Coinbase, Wallet } from "@coinbase/coinbase-sdk";
 
 // import environment variables
@@ -110,8 +111,8 @@ describe("BrianCoinbaseSDK Tests", () => {
           });
           //load recipient address from env
           const recipientAddress = process.env.CDP_TEST_WALLET_ADDRESS || "";
-          const txHashes = await brianCoinbaseSDK.transact(
-            `swap 1$ ETH to USDCon Base`
+          const txHashes = toTransactionList(
+            await brianCoinbaseSDK.transact(`swap 1$ ETH to USDCon Base`)
           );
           expect(txHashes.length).toBeGreaterThan(0);
         } catch (error) {
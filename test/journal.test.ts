@@ -0,0 +1,72 @@
+import { describe, test, expect } from "@jest/globals";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import {
+  FileExecutionJournal,
+  InMemoryExecutionJournal,
+  JournalEntry,
+} from "../src/journal";
+
+const entry = (
+  executionId: string,
+  walletId: string,
+  actions: string[],
+  recordedAt: string
+): JournalEntry => ({
+  type: "execution:started",
+  executionId,
+  walletId,
+  address: "0x1111111111111111111111111111111111111111",
+  actions,
+  recordedAt,
+});
+
+const entries = [
+  entry("exec-1", "wallet-1", ["swap"], "2024-01-01T00:00:00.000Z"),
+  entry("exec-2", "wallet-1", ["transfer"], "2024-01-02T00:00:00.000Z"),
+  entry("exec-3", "wallet-2", ["swap", "bridge"], "2024-01-03T00:00:00.000Z"),
+];
+
+describe("InMemoryExecutionJournal", () => {
+  test("queries by wallet, action and date range", async () => {
+    const journal = new InMemoryExecutionJournal();
+    for (const item of entries) {
+      await journal.append(item);
+    }
+    const ids = async (query: Parameters<typeof journal.query>[0]) =>
+      (await journal.query(query)).map(({ executionId }) => executionId);
+
+    expect(await ids({})).toEqual(["exec-1", "exec-2", "exec-3"]);
+    expect(await ids({ walletId: "wallet-1" })).toEqual(["exec-1", "exec-2"]);
+    expect(await ids({ action: "swap" })).toEqual(["exec-1", "exec-3"]);
+    expect(
+      await ids({
+        from: new Date("2024-01-02T00:00:00.000Z"),
+        to: new Date("2024-01-02T23:59:59.999Z"),
+      })
+    ).toEqual(["exec-2"]);
+  });
+});
+
+describe("FileExecutionJournal", () => {
+  test("appends one JSON line per entry", async () => {
+    const directory = await mkdtemp(join(tmpdir(), "journal-"));
+    try {
+      const filePath = join(directory, "audit", "journal.jsonl");
+      const journal = new FileExecutionJournal(filePath);
+      expect(await journal.query()).toEqual([]);
+
+      for (const item of entries) {
+        await journal.append(item);
+      }
+      const lines = (await readFile(filePath, "utf8")).trim().split("\n");
+      expect(lines).toHaveLength(3);
+      expect(await journal.query({ walletId: "wallet-2" })).toEqual([
+        entries[2],
+      ]);
+    } finally {
+      await rm(directory, { recursive: true, force: true });
+    }
+  });
+});
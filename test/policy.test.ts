@@ -0,0 +1,271 @@
+import { describe, test, expect } from "@jest/globals";
+import type { TransactionResult } from "@brian-ai/sdk";
+import { encodeFunctionData, erc20Abi } from "viem";
+import { UnknownSpendError } from "../src/errors";
+import {
+  ActionContext,
+  ActionStep,
+  defaultActionHandlers,
+} from "../src/handlers";
+import { evaluatePolicy } from "../src/policy";
+import { getTokenSpend } from "../src/spend";
+import { ENSO_ROUTER_ABI } from "../src/utils";
+
+const USER = "0x1111111111111111111111111111111111111111";
+const RECIPIENT = "0x2222222222222222222222222222222222222222";
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const ENSO_ROUTER = "0x80EbA3855878739F4710233A8a19d89Bdd2ffB8E";
+
+const usdc = {
+  address: USDC,
+  chainId: 8453,
+  symbol: "USDC",
+  decimals: 6,
+  name: "USD Coin",
+} as const;
+
+const swap: TransactionResult = {
+  type: "write",
+  action: "swap",
+  solver: "Enso",
+  data: {
+    description: "swap 5 USDC to ETH",
+    fromAmount: "5000000",
+    fromToken: usdc,
+    toToken: { ...usdc, address: "0x0000000000000000000000000000000000000000" },
+    steps: [
+      {
+        chainId: 8453,
+        from: USER,
+        to: USDC,
+        value: "0",
+        data: encodeFunctionData({
+          abi: erc20Abi,
+          functionName: "approve",
+          args: [ENSO_ROUTER, 5000000n],
+        }),
+      },
+      {
+        chainId: 8453,
+        from: USER,
+        to: ENSO_ROUTER,
+        value: "0",
+        data: encodeFunctionData({
+          abi: ENSO_ROUTER_ABI,
+          functionName: "routeSingle",
+          args: [USDC, 5000000n, [], []],
+        }),
+      },
+    ],
+  },
+};
+
+const transfer: TransactionResult = {
+  type: "write",
+  action: "transfer",
+  solver: "",
+  data: {
+    description: "send 2 USDC",
+    fromToken: usdc,
+    steps: [
+      {
+        chainId: 8453,
+        from: USER,
+        to: USDC,
+        value: "0",
+        data: encodeFunctionData({
+          abi: erc20Abi,
+          functionName: "transfer",
+          args: [RECIPIENT, 2000000n],
+        }),
+      },
+    ],
+  },
+};
+
+const decode = (result: TransactionResult) => ({
+  result,
+  steps: defaultActionHandlers[result.action].decode(
+    result,
+    {} as ActionContext
+  ),
+});
+
+describe("evaluatePolicy", () => {
+  test("accepts actions within every rule", () => {
+    expect(
+      evaluatePolicy(
+        {
+          allowedContracts: { swap: [ENSO_ROUTER, USDC] },
+          allowedTokens: [USDC, "0x0000000000000000000000000000000000000000"],
+          maxNativeValue: 0n,
+          maxTokenAmounts: { [USDC]: "5000000" },
+          blockedRecipients: [RECIPIENT],
+        },
+        [decode(swap)]
+      )
+    ).toEqual([]);
+  });
+
+  test("counts the router call of a swap Brian sent without an approval", () => {
+    const routeOnly: TransactionResult = {
+      ...swap,
+      data: {
+        ...swap.data,
+        description: "swap 500,000 USDC to ETH",
+        fromAmount: "500000000000",
+        steps: [
+          {
+            chainId: 8453,
+            from: USER,
+            to: ENSO_ROUTER,
+            value: "0",
+            data: encodeFunctionData({
+              abi: ENSO_ROUTER_ABI,
+              functionName: "routeSingle",
+              args: [USDC, 500000000000n, [], []],
+            }),
+          },
+        ],
+      },
+    };
+    expect(
+      evaluatePolicy({ maxTokenAmounts: { [USDC]: 1000000000000n } }, [
+        decode(routeOnly),
+      ])
+    ).toEqual([]);
+    expect(
+      evaluatePolicy({ maxTokenAmounts: { [USDC]: 1000000n } }, [
+        decode(routeOnly),
+      ])
+    ).toEqual([
+      expect.objectContaining({
+        rule: "maxTokenAmounts",
+        message: `Spends 500000000000 of token ${USDC}, above the maximum of 1000000`,
+      }),
+    ]);
+  });
+
+  test("checks the tokens and amounts a router call pulls", () => {
+    const DAI = "0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb";
+    const routeDai: TransactionResult = {
+      ...swap,
+      data: {
+        ...swap.data,
+        //Brian quotes 1 USDC, the calldata pulls 5 DAI
+        fromAmount: "1000000",
+        steps: [
+          {
+            ...swap.data.steps![1],
+            data: encodeFunctionData({
+              abi: ENSO_ROUTER_ABI,
+              functionName: "routeSingle",
+              args: [DAI, 5000000n, [], []],
+            }),
+          },
+        ],
+      },
+    };
+    expect(
+      evaluatePolicy(
+        {
+          allowedTokens: [USDC, "0x0000000000000000000000000000000000000000"],
+          maxTokenAmounts: { [DAI]: 2000000n },
+        },
+        [decode(routeDai)]
+      )
+    ).toEqual([
+      expect.objectContaining({
+        rule: "allowedTokens",
+        message: `Token ${DAI} is not allowed`,
+      }),
+      expect.objectContaining({
+        rule: "maxTokenAmounts",
+        message: `Spends 5000000 of token ${DAI}, above the maximum of 2000000`,
+      }),
+    ]);
+  });
+
+  test("lists every broken rule", () => {
+    const violations = evaluatePolicy(
+      {
+        allowedContracts: { swap: [USDC] },
+        allowedTokens: [USDC],
+        maxTokenAmounts: { [USDC]: 1000000n },
+        blockedRecipients: [RECIPIENT],
+      },
+      [decode(swap), decode(transfer)]
+    );
+    expect(
+      violations.map(({ rule, actionIndex }) => [rule, actionIndex])
+    ).toEqual([
+      ["allowedTokens", 0],
+      ["maxTokenAmounts", 0],
+      ["allowedContracts", 0],
+      ["maxTokenAmounts", 1],
+      ["blockedRecipients", 1],
+    ]);
+  });
+});
+
+describe("getTokenSpend", () => {
+  const UNKNOWN_ROUTER = "0x2222222222222222222222222222222222222222";
+
+  const routeSingle = (amountIn: bigint) => ({
+    ...swap.data.steps![1],
+    data: encodeFunctionData({
+      abi: ENSO_ROUTER_ABI,
+      functionName: "routeSingle",
+      args: [USDC, amountIn, [], []],
+    }),
+  });
+
+  test("reads router calls from their calldata, not Brian's quote", () => {
+    const quotedLow: TransactionResult = {
+      ...swap,
+      data: {
+        ...swap.data,
+        fromAmount: "1000000",
+        steps: [routeSingle(5000000n)],
+      },
+    };
+    const { fromAmount, ...unquoted } = swap.data;
+    const { result, steps } = decode(quotedLow);
+    expect(getTokenSpend(result, steps)).toEqual(
+      new Map([[USDC.toLowerCase(), 5000000n]])
+    );
+    const withoutQuote = decode({
+      ...swap,
+      data: { ...unquoted, fromToken: undefined, steps: [routeSingle(7n)] },
+    });
+    expect(getTokenSpend(withoutQuote.result, withoutQuote.steps)).toEqual(
+      new Map([[USDC.toLowerCase(), 7n]])
+    );
+  });
+
+  test("refuses router calls it cannot count", () => {
+    const steps: ActionStep[] = [
+      {
+        type: "invoke",
+        role: "main",
+        contractAddress: UNKNOWN_ROUTER,
+        method: "swap",
+        abi: [],
+        args: {},
+        step: {
+          ...swap.data.steps![1],
+          to: UNKNOWN_ROUTER,
+          data: "0xdeadbeef",
+        },
+      },
+    ];
+    const { fromAmount, ...unquoted } = swap.data;
+    expect(() =>
+      getTokenSpend({ ...swap, data: { ...unquoted, steps: [] } }, steps)
+    ).toThrowError(UnknownSpendError);
+    //Brian's quote stands in for calldata that cannot be read
+    expect(getTokenSpend(swap, steps)).toEqual(
+      new Map([[USDC.toLowerCase(), 5000000n]])
+    );
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, test, expect } from "@jest/globals";
+import { getRetryDelay, isRetryableError, withRetry } from "../src/retry";
+
+const named = (name: string) => Object.assign(new Error(name), { name });
+
+const policy = { maxAttempts: 3, baseDelayMs: 0, maxDelayMs: 0 };
+
+describe("isRetryableError", () => {
+  test("retries rate limits, server errors and dropped connections", () => {
+    expect(isRetryableError(named("RateLimitError"))).toBe(true);
+    expect(isRetryableError(named("InternalServerError"))).toBe(true);
+    expect(isRetryableError(named("TimeoutError"))).toBe(true);
+    expect(
+      isRetryableError(Object.assign(new Error(), { httpCode: 503 }))
+    ).toBe(true);
+    expect(
+      isRetryableError(Object.assign(new Error(), { httpCode: null }))
+    ).toBe(true);
+    expect(
+      isRetryableError(
+        new TypeError("fetch failed", { cause: { code: "ECONNRESET" } })
+      )
+    ).toBe(true);
+  });
+
+  test("does not retry client errors", () => {
+    expect(isRetryableError(named("BadRequestError"))).toBe(false);
+    expect(
+      isRetryableError(Object.assign(new Error(), { httpCode: 400 }))
+    ).toBe(false);
+    expect(isRetryableError(new Error("Function not found in ABI"))).toBe(
+      false
+    );
+  });
+});
+
+describe("getRetryDelay", () => {
+  test("backs off exponentially up to the maximum delay", () => {
+    const backoff = { maxAttempts: 10, baseDelayMs: 100, maxDelayMs: 1000 };
+    const ceiling = (attempt: number) =>
+      getRetryDelay(backoff, attempt, () => 1);
+    expect([1, 2, 3, 4, 5].map(ceiling)).toEqual([100, 200, 400, 800, 1000]);
+    expect(getRetryDelay(backoff, 3, () => 0.5)).toBe(200);
+  });
+});
+
+describe("withRetry", () => {
+  test("retries transient errors until the operation succeeds", async () => {
+    let calls = 0;
+    const retries: number[] = [];
+    const result = await withRetry(
+      policy,
+      async () => {
+        if (++calls < 3) {
+          throw named("RateLimitError");
+        }
+        return "ok";
+      },
+      (_, attempt) => retries.push(attempt)
+    );
+    expect(result).toBe("ok");
+    expect(retries).toEqual([1, 2]);
+  });
+
+  test("gives up after the last attempt", async () => {
+    let calls = 0;
+    await expect(
+      withRetry(policy, async () => {
+        calls++;
+        throw named("InternalServerError");
+      })
+    ).rejects.toThrowError("InternalServerError");
+    expect(calls).toBe(3);
+  });
+
+  test("does not retry errors the policy rejects", async () => {
+    let calls = 0;
+    await expect(
+      withRetry({ ...policy, isRetryable: () => false }, async () => {
+        calls++;
+        throw named("RateLimitError");
+      })
+    ).rejects.toThrowError();
+    expect(calls).toBe(1);
+  });
+});
@@ -0,0 +1,815 @@
+import { describe, test, expect, jest } from "@jest/globals";
+import type { TransactionResult } from "@brian-ai/sdk";
+import { Wallet } from "@coinbase/coinbase-sdk";
+import { encodeFunctionData, erc20Abi } from "viem";
+import {
+  AbortError,
+  BrianApiError,
+  ExecutionFailedError,
+  ExecutionInProgressError,
+  InvalidPlanError,
+  NoWalletError,
+  PolicyViolationError,
+  StepExecutionError,
+  UnsupportedActionError,
+  UserRejectedError,
+  WalletConflictError,
+  WrongNetworkError,
+} from "../src/errors";
+import { InMemoryCheckpointStore } from "../src/checkpoints";
+import { InMemoryIdempotencyStore } from "../src/idempotency";
+import { InMemoryExecutionJournal } from "../src/journal";
+import { BrianCoinbaseSDK, BrianCoinbaseSDKOptions } from "../src/sdk";
+import { ENSO_ROUTER_ABI, ENS_REGISTRAR_CONTROLLER_ABI } from "../src/utils";
+
+//the Brian SDK is only reached through `transact`, stubbed in every test
+jest.mock("@brian-ai/sdk", () => ({
+  BrianSDK: class {
+    transact = jest.fn();
+  },
+}));
+
+const USER = "0x1111111111111111111111111111111111111111";
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const ENSO_ROUTER = "0x80EbA3855878739F4710233A8a19d89Bdd2ffB8E";
+
+const swapResult: TransactionResult = {
+  type: "write",
+  action: "swap",
+  solver: "Enso",
+  data: {
+    description: "swap 1 USDC to ETH",
+    fromAmount: "1000000",
+    steps: [
+      {
+        chainId: 8453,
+        from: USER,
+        to: USDC,
+        value: "0",
+        data: encodeFunctionData({
+          abi: erc20Abi,
+          functionName: "approve",
+          args: [ENSO_ROUTER, 1000000n],
+        }),
+      },
+      {
+        chainId: 8453,
+        from: USER,
+        to: ENSO_ROUTER,
+        value: "0",
+        data: encodeFunctionData({
+          abi: ENSO_ROUTER_ABI,
+          functionName: "routeSingle",
+          args: [USDC, 1000000n, [], []],
+        }),
+      },
+    ],
+  },
+};
+
+//a pending CDP transaction that lands as soon as it is polled
+const landedTransaction = (hash: string) => ({
+  getTransactionHash: () => hash,
+  getStatus: () => "complete",
+  wait: async () => landedTransaction(hash),
+});
+
+const stubAddress = (id: string) => {
+  let sent = 0;
+  return {
+    getId: () => id,
+    invokeContract: jest.fn(async () => landedTransaction(`0x${++sent}`)),
+    createTransfer: jest.fn(async () => landedTransaction(`0x${++sent}`)),
+  };
+};
+
+type StubAddress = ReturnType<typeof stubAddress>;
+
+const stubWallet = (walletId: string, addresses: StubAddress[]) =>
+  ({
+    getId: () => walletId,
+    getNetworkId: () => "base-mainnet",
+    getDefaultAddress: async () => addresses[0],
+    listAddresses: async () => addresses,
+    saveSeed: jest.fn(() => walletId),
+  } as unknown as Wallet);
+
+const createSDK = (options: Partial<BrianCoinbaseSDKOptions> = {}) => {
+  const sdk = new BrianCoinbaseSDK({
+    brianApiKey: "brian-api-key",
+    coinbaseApiKeyName: "cdp-api-key-name",
+    coinbaseApiKeySecret: "cdp-api-key-secret",
+    //no allowance is ever enough, so approvals are always sent
+    contractReader: { readContract: async () => 0n },
+    retryPolicy: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+    ...options,
+  });
+  const transact = jest
+    .spyOn(sdk.brianSDK, "transact")
+    .mockResolvedValue([swapResult]);
+  return { sdk, transact };
+};
+
+//registers `wallet` the way `importWallet` does, under `label`
+const addWallet = async (
+  sdk: BrianCoinbaseSDK,
+  wallet: Wallet,
+  label?: string
+) => {
+  jest.spyOn(Wallet, "import").mockResolvedValue(wallet);
+  return sdk.importWallet({ walletId: wallet.getId()!, seed: "" }, label);
+};
+
+describe("execution events", () => {
+  test("report the end of runs stopped before sending anything", async () => {
+    const { sdk } = createSDK({ policy: { allowedContracts: { swap: [] } } });
+    const address = stubAddress(USER);
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+    const events: string[] = [];
+    sdk.events.on("execution:started", () => events.push("started"));
+    sdk.events.on("execution:finished", ({ error }) =>
+      events.push(`finished: ${(error as Error).name}`)
+    );
+
+    await expect(sdk.transact("swap 1 USDC to ETH")).rejects.toThrowError(
+      PolicyViolationError
+    );
+    expect(events).toEqual(["started", "finished: PolicyViolationError"]);
+    expect(address.invokeContract).not.toHaveBeenCalled();
+  });
+
+  test("report a failed run once", async () => {
+    const { sdk } = createSDK();
+    const address = stubAddress(USER);
+    address.invokeContract.mockRejectedValueOnce(new Error("out of gas"));
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+    const finished = jest.fn();
+    sdk.events.on("execution:finished", finished);
+
+    await expect(sdk.transact("swap 1 USDC to ETH")).rejects.toThrowError(
+      StepExecutionError
+    );
+    expect(finished).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe("quote failures", () => {
+  test("end the Brian request and the run", async () => {
+    const { sdk, transact } = createSDK();
+    transact.mockRejectedValue(new Error("502 Bad Gateway"));
+    await addWallet(sdk, stubWallet("wallet-1", [stubAddress(USER)]));
+    const events: string[] = [];
+    sdk.events.on("brian:request", () => events.push("request"));
+    sdk.events.on("brian:failed", () => events.push("failed"));
+    sdk.events.on("execution:finished", ({ result, error }) =>
+      events.push(`finished: ${(error as Error).name} ${result.actions}`)
+    );
+
+    await expect(sdk.transact("swap 1 USDC to ETH")).rejects.toThrowError(
+      BrianApiError
+    );
+    expect(events).toEqual(["request", "failed", "finished: BrianApiError "]);
+  });
+
+  test("end a run whose response cannot be decoded", async () => {
+    const { sdk, transact } = createSDK({ onUnsupportedAction: "throw" });
+    transact.mockResolvedValue([
+      { ...swapResult, action: "stake" as TransactionResult["action"] },
+    ]);
+    await addWallet(sdk, stubWallet("wallet-1", [stubAddress(USER)]));
+    const finished = jest.fn();
+    sdk.events.on("execution:finished", finished);
+
+    await expect(sdk.transact("stake 1 ETH")).rejects.toThrowError(
+      UnsupportedActionError
+    );
+    expect(finished).toHaveBeenCalledTimes(1);
+    expect(finished).toHaveBeenCalledWith(
+      expect.objectContaining({
+        error: expect.any(UnsupportedActionError),
+      })
+    );
+  });
+});
+
+describe("journal", () => {
+  test("records calls that fail before they have a plan", async () => {
+    const journal = new InMemoryExecutionJournal();
+    const { sdk, transact } = createSDK({ journal });
+    transact.mockRejectedValue(new Error("502 Bad Gateway"));
+    await addWallet(sdk, stubWallet("wallet-1", [stubAddress(USER)]));
+
+    await expect(sdk.transact("swap 1 USDC to ETH")).rejects.toThrowError(
+      BrianApiError
+    );
+    expect(await journal.query({ walletId: "wallet-1" })).toEqual([
+      expect.objectContaining({
+        type: "execution:started",
+        address: USER,
+        prompt: "swap 1 USDC to ETH",
+      }),
+      expect.objectContaining({
+        type: "execution:finished",
+        status: "failed",
+        error: "Brian request failed: 502 Bad Gateway",
+      }),
+    ]);
+  });
+
+  test("a failed write never marks a broadcast step failed", async () => {
+    const checkpointStore = new InMemoryCheckpointStore();
+    const { sdk } = createSDK({
+      checkpointStore,
+      journal: {
+        append: async (entry) => {
+          if (entry.type === "step:submitted") {
+            throw new Error("disk full");
+          }
+        },
+        query: async () => [],
+      },
+    });
+    await addWallet(sdk, stubWallet("wallet-1", [stubAddress(USER)]));
+    const started = jest.fn<(event: { executionId: string }) => void>();
+    sdk.events.on("execution:started", started);
+
+    await expect(sdk.transact("swap 1 USDC to ETH")).rejects.toThrowError(
+      "disk full"
+    );
+    const [{ executionId }] = started.mock.calls[0];
+    const checkpoint = await checkpointStore.get(executionId);
+    expect(checkpoint?.result.actions[0].steps).toEqual([
+      expect.objectContaining({ status: "pending", transactionHash: "0x1" }),
+    ]);
+  });
+});
+
+describe("cancellation", () => {
+  test("the total timeout bounds the wait for a step", async () => {
+    const { sdk } = createSDK();
+    const address = stubAddress(USER);
+    address.invokeContract.mockResolvedValueOnce({
+      ...landedTransaction("0xa"),
+      wait: () => new Promise(() => {}),
+    });
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+
+    const error = await sdk
+      .transact("swap 1 USDC to ETH", { totalTimeoutMs: 50 })
+      .catch((error) => error);
+    expect(error).toBeInstanceOf(AbortError);
+    expect(error.result.actions[0].steps).toEqual([
+      expect.objectContaining({ status: "pending", transactionHash: "0xa" }),
+    ]);
+  });
+
+  test("the total timeout bounds a pending approval", async () => {
+    const { sdk } = createSDK({ onConfirm: () => new Promise(() => {}) });
+    const address = stubAddress(USER);
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+
+    await expect(
+      sdk.transact("swap 1 USDC to ETH", { totalTimeoutMs: 50 })
+    ).rejects.toThrowError(AbortError);
+    expect(address.invokeContract).not.toHaveBeenCalled();
+  });
+
+  test("aborting stops a pending step approval", async () => {
+    const controller = new AbortController();
+    const { sdk } = createSDK({
+      onConfirmStep: async ({ stepIndex }) => {
+        if (stepIndex === 0) {
+          return true;
+        }
+        controller.abort(new Error("cancelled"));
+        return new Promise<boolean>(() => {});
+      },
+    });
+    const address = stubAddress(USER);
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+
+    const error = await sdk
+      .transact("swap 1 USDC to ETH", { signal: controller.signal })
+      .catch((error) => error);
+    expect(error).toBeInstanceOf(AbortError);
+    expect(address.invokeContract).toHaveBeenCalledTimes(1);
+    expect(error.result.actions[0].steps).toEqual([
+      expect.objectContaining({ status: "complete", transactionHash: "0x1" }),
+    ]);
+  });
+
+  test("passes the step timeout on to CDP", async () => {
+    const { sdk } = createSDK();
+    const address = stubAddress(USER);
+    const wait = jest.fn(async () => landedTransaction("0xa"));
+    address.invokeContract.mockResolvedValue({
+      ...landedTransaction("0xa"),
+      wait,
+    });
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+
+    await sdk.transact("swap 1 USDC to ETH", { stepTimeoutMs: 90_000 });
+    expect(wait).toHaveBeenCalledWith({ timeoutSeconds: 90 });
+  });
+});
+
+describe("settlement", () => {
+  //a run whose swap was broadcast as 0xb but never seen to confirm
+  const brokenWait = async (checkpointStore: InMemoryCheckpointStore) => {
+    const { sdk } = createSDK({ checkpointStore });
+    const address = stubAddress(USER);
+    address.invokeContract.mockResolvedValueOnce(landedTransaction("0xa"));
+    address.invokeContract.mockResolvedValueOnce({
+      ...landedTransaction("0xb"),
+      wait: async () => {
+        throw new Error("Wait for transaction timed out");
+      },
+    });
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+    const error = await sdk
+      .transact("swap 1 USDC to ETH")
+      .catch((error) => error);
+    return { error, address };
+  };
+
+  test("a step whose confirmation cannot be read stays pending", async () => {
+    const { error } = await brokenWait(new InMemoryCheckpointStore());
+
+    expect(error).toBeInstanceOf(ExecutionInProgressError);
+    expect(error.result.actions[0].steps).toEqual([
+      expect.objectContaining({ status: "complete", transactionHash: "0xa" }),
+      expect.objectContaining({ status: "pending", transactionHash: "0xb" }),
+    ]);
+  });
+
+  test("resume settles a landed step from its hash", async () => {
+    const checkpointStore = new InMemoryCheckpointStore();
+    const { error, address } = await brokenWait(checkpointStore);
+    const getStatus = jest.fn(async () => "complete" as const);
+    const { sdk } = createSDK({
+      checkpointStore,
+      transactionStatusReader: { getStatus },
+    });
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+
+    const result = await sdk.resume(error.executionId);
+    expect(getStatus).toHaveBeenCalledWith(address, "0xb");
+    expect(address.invokeContract).toHaveBeenCalledTimes(2);
+    expect(result.actions[0].steps).toEqual([
+      expect.objectContaining({ status: "complete", transactionHash: "0xa" }),
+      expect.objectContaining({ status: "complete", transactionHash: "0xb" }),
+    ]);
+  });
+
+  test("resume waits for a step that has not landed", async () => {
+    const checkpointStore = new InMemoryCheckpointStore();
+    const { error, address } = await brokenWait(checkpointStore);
+    const { sdk } = createSDK({
+      checkpointStore,
+      transactionStatusReader: { getStatus: async () => undefined },
+    });
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+
+    await expect(sdk.resume(error.executionId)).rejects.toThrowError(
+      ExecutionInProgressError
+    );
+    expect(address.invokeContract).toHaveBeenCalledTimes(2);
+    const checkpoint = await checkpointStore.get(error.executionId);
+    expect(checkpoint?.result.actions[0].steps[1]).toEqual(
+      expect.objectContaining({ status: "pending", transactionHash: "0xb" })
+    );
+  });
+
+  test("resume refuses a run still going in this instance", async () => {
+    const { sdk } = createSDK();
+    const address = stubAddress(USER);
+    let land = () => {};
+    const landed = new Promise<ReturnType<typeof landedTransaction>>(
+      (resolve) => (land = () => resolve(landedTransaction("0xa")))
+    );
+    address.invokeContract.mockResolvedValueOnce({
+      ...landedTransaction("0xa"),
+      wait: () => landed,
+    });
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+    const started = jest.fn<(event: { executionId: string }) => void>();
+    sdk.events.on("execution:started", started);
+
+    const running = sdk.transact("swap 1 USDC to ETH");
+    await new Promise((resolve) => sdk.events.once("step:submitted", resolve));
+    const [{ executionId }] = started.mock.calls[0];
+    await expect(sdk.resume(executionId)).rejects.toThrowError(
+      ExecutionInProgressError
+    );
+    land();
+    await running;
+    expect(address.invokeContract).toHaveBeenCalledTimes(2);
+  });
+
+  test("resume sends a step again once it failed on-chain", async () => {
+    const checkpointStore = new InMemoryCheckpointStore();
+    const { error, address } = await brokenWait(checkpointStore);
+    const { sdk } = createSDK({
+      checkpointStore,
+      transactionStatusReader: { getStatus: async () => "failed" },
+    });
+    address.invokeContract.mockResolvedValueOnce(landedTransaction("0xc"));
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+
+    const result = await sdk.resume(error.executionId);
+    expect(address.invokeContract).toHaveBeenCalledTimes(3);
+    expect(result.actions[0].steps[1]).toEqual(
+      expect.objectContaining({ status: "complete", transactionHash: "0xc" })
+    );
+  });
+});
+
+describe("idempotency", () => {
+  test("a repeated key tells a live run from an abandoned one", async () => {
+    const checkpointStore = new InMemoryCheckpointStore();
+    const idempotencyStore = new InMemoryIdempotencyStore();
+    const { sdk } = createSDK({ checkpointStore, idempotencyStore });
+    const address = stubAddress(USER);
+    address.invokeContract.mockResolvedValueOnce({
+      ...landedTransaction("0xa"),
+      wait: () => new Promise(() => {}),
+    });
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+    const options = { idempotencyKey: "order-42" };
+
+    sdk.transact("swap 1 USDC to ETH", options);
+    await new Promise((resolve) => sdk.events.once("step:submitted", resolve));
+    await expect(
+      sdk.transact("swap 1 USDC to ETH", options)
+    ).rejects.toMatchObject({ code: "EXECUTION_IN_PROGRESS", live: true });
+
+    //another instance sharing the stores, as after a restart
+    const { sdk: restarted } = createSDK({ checkpointStore, idempotencyStore });
+    await addWallet(restarted, stubWallet("wallet-1", [address]));
+    await expect(
+      restarted.transact("swap 1 USDC to ETH", options)
+    ).rejects.toMatchObject({ code: "EXECUTION_IN_PROGRESS", live: false });
+  });
+
+  test("a repeated key reports the failed run it belongs to", async () => {
+    const { sdk, transact } = createSDK();
+    const address = stubAddress(USER);
+    address.invokeContract.mockRejectedValueOnce(new Error("out of gas"));
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+    const options = { idempotencyKey: "order-42" };
+
+    const first = await sdk
+      .transact("swap 1 USDC to ETH", options)
+      .catch((error) => error);
+    expect(first).toBeInstanceOf(StepExecutionError);
+    const repeated = await sdk
+      .transact("swap 1 USDC to ETH", options)
+      .catch((error) => error);
+    expect(repeated).toBeInstanceOf(ExecutionFailedError);
+    expect(repeated).toMatchObject({
+      executionId: first.result.executionId,
+      result: first.result,
+    });
+    expect(transact).toHaveBeenCalledTimes(1);
+
+    //once resumed to completion, the key hands back its result
+    await sdk.resume(first.result.executionId);
+    expect(await sdk.transact("swap 1 USDC to ETH", options)).toMatchObject({
+      executionId: first.result.executionId,
+      actions: [{ status: "complete" }],
+    });
+  });
+});
+
+describe("prepared plans", () => {
+  const OTHER = "0x3333333333333333333333333333333333333333";
+
+  test("execute a plan that went through JSON", async () => {
+    const { sdk, transact } = createSDK();
+    const address = stubAddress(USER);
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+
+    const plan = await sdk.prepare("swap 1 USDC to ETH");
+    expect(address.invokeContract).not.toHaveBeenCalled();
+    const result = await sdk.execute(JSON.parse(JSON.stringify(plan)));
+
+    expect(transact).toHaveBeenCalledTimes(1);
+    expect(address.invokeContract).toHaveBeenCalledTimes(2);
+    expect(result.actions[0].status).toBe("complete");
+  });
+
+  test("refuse a plan prepared for another wallet", async () => {
+    const { sdk } = createSDK();
+    const address = stubAddress(USER);
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+    const plan = await sdk.prepare("swap 1 USDC to ETH");
+
+    await addWallet(sdk, stubWallet("wallet-2", [address]));
+    await expect(sdk.execute(plan)).rejects.toThrowError(
+      new InvalidPlanError("Execution plan belongs to another wallet")
+    );
+    expect(address.invokeContract).not.toHaveBeenCalled();
+  });
+
+  test("refuse a plan for an address the wallet does not hold", async () => {
+    const { sdk } = createSDK();
+    const address = stubAddress(USER);
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+    const plan = await sdk.prepare("swap 1 USDC to ETH");
+
+    await expect(sdk.execute({ ...plan, address: OTHER })).rejects.toThrowError(
+      new InvalidPlanError("Execution plan belongs to another address")
+    );
+    expect(address.invokeContract).not.toHaveBeenCalled();
+  });
+
+  test("refuse steps that differ from the Brian response", async () => {
+    const { sdk } = createSDK();
+    const address = stubAddress(USER);
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+    const plan = await sdk.prepare("swap 1 USDC to ETH");
+    const [approve, main] = plan.actions[0].steps;
+    const tampered = {
+      ...plan,
+      actions: [
+        {
+          ...plan.actions[0],
+          steps: [{ ...approve, args: { ...approve.args, amount: "1" } }, main],
+        },
+      ],
+    };
+
+    await expect(sdk.execute(tampered)).rejects.toThrowError(
+      new InvalidPlanError(
+        "Execution plan steps do not match its Brian response"
+      )
+    );
+    expect(address.invokeContract).not.toHaveBeenCalled();
+  });
+});
+
+describe("confirmations", () => {
+  const CONTROLLER = "0x253553366Da8546fC250F225fe3d25d0C782303b";
+  const COMMITMENT =
+    "0x1111111111111111111111111111111111111111111111111111111111111111";
+  const COMMITTED_AT = 1_700_000_000;
+
+  const registration: TransactionResult = {
+    type: "write",
+    action: "ENS Registration",
+    solver: "Brian-ENS",
+    data: {
+      description: "register brian.eth",
+      steps: [
+        {
+          chainId: 8453,
+          from: USER,
+          to: CONTROLLER,
+          value: "0",
+          data: encodeFunctionData({
+            abi: ENS_REGISTRAR_CONTROLLER_ABI,
+            functionName: "commit",
+            args: [COMMITMENT],
+          }),
+        },
+        {
+          chainId: 8453,
+          from: USER,
+          to: CONTROLLER,
+          value: "3000000000000000",
+          data: encodeFunctionData({
+            abi: ENS_REGISTRAR_CONTROLLER_ABI,
+            functionName: "register",
+            args: ["brian", USER, 31536000n, COMMITMENT, USER, [], false, 0],
+          }),
+        },
+      ],
+    },
+  };
+
+  test("a rejected plan sends nothing", async () => {
+    const onConfirm = jest.fn(async () => false);
+    const { sdk } = createSDK({ onConfirm });
+    const address = stubAddress(USER);
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+
+    await expect(sdk.transact("swap 1 USDC to ETH")).rejects.toThrowError(
+      UserRejectedError
+    );
+    expect(onConfirm).toHaveBeenCalledTimes(1);
+    expect(address.invokeContract).not.toHaveBeenCalled();
+    expect(address.createTransfer).not.toHaveBeenCalled();
+  });
+
+  test("a rejected registration keeps the commitment it sent", async () => {
+    const { sdk, transact } = createSDK({
+      //the commitment is already old enough when the registration is asked for
+      contractReader: {
+        readContract: async ({ method }) =>
+          ({
+            minCommitmentAge: 60n,
+            maxCommitmentAge: 86400n,
+            commitments: BigInt(COMMITTED_AT),
+          }[method] ?? 0n),
+      },
+      ensCommitmentScheduler: {
+        now: () => (COMMITTED_AT + 3600) * 1000,
+        wait: async () => {},
+      },
+      onConfirmStep: async ({ stepIndex }) => stepIndex === 0,
+    });
+    transact.mockResolvedValue([registration]);
+    const address = stubAddress(USER);
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+
+    const error = await sdk
+      .transact("register brian.eth")
+      .catch((error) => error);
+    expect(error).toBeInstanceOf(UserRejectedError);
+    expect(address.invokeContract).toHaveBeenCalledTimes(1);
+    expect(error.result.actions[0]).toMatchObject({
+      status: "failed",
+      steps: [
+        {
+          role: "ens-commit",
+          status: "complete",
+          transactionHash: "0x1",
+        },
+      ],
+    });
+  });
+});
+
+describe("wallet registry", () => {
+  test("runs a call on the wallet it names", async () => {
+    const { sdk } = createSDK();
+    const first = stubAddress(USER);
+    const second = stubAddress(USER);
+    await addWallet(sdk, stubWallet("wallet-1", [first]), "treasury");
+    await addWallet(sdk, stubWallet("wallet-2", [second]));
+
+    expect(sdk.listWallets().map(({ walletId }) => walletId)).toEqual([
+      "treasury",
+      "wallet-2",
+    ]);
+    await sdk.transact("swap 1 USDC to ETH", { walletId: "treasury" });
+    expect(first.invokeContract).toHaveBeenCalledTimes(2);
+    expect(second.invokeContract).not.toHaveBeenCalled();
+  });
+
+  test("switches and removes the current wallet", async () => {
+    const { sdk } = createSDK();
+    const first = stubAddress(USER);
+    await addWallet(sdk, stubWallet("wallet-1", [first]));
+    await addWallet(sdk, stubWallet("wallet-2", [stubAddress(USER)]));
+
+    expect(sdk.useWallet("wallet-1").getId()).toBe("wallet-1");
+    await sdk.transact("swap 1 USDC to ETH");
+    expect(first.invokeContract).toHaveBeenCalledTimes(2);
+
+    expect(sdk.removeWallet("wallet-1")).toBe(true);
+    expect(sdk.removeWallet("wallet-1")).toBe(false);
+    expect(sdk.getCurrentWallet()).toBeNull();
+    await expect(sdk.transact("swap 1 USDC to ETH")).rejects.toThrowError(
+      new NoWalletError("No wallet created")
+    );
+    expect(() => sdk.useWallet("wallet-1")).toThrowError(
+      new NoWalletError("No wallet registered as wallet-1")
+    );
+  });
+});
+
+describe("wallet keys", () => {
+  test("a label stays bound to its wallet", async () => {
+    const { sdk } = createSDK();
+    const alice = stubWallet("wallet-1", [stubAddress(USER)]);
+    await addWallet(sdk, alice, "alice");
+
+    //importing the same wallet again is harmless
+    await addWallet(sdk, alice, "alice");
+    await expect(
+      addWallet(sdk, stubWallet("wallet-2", [stubAddress(USER)]), "alice")
+    ).rejects.toThrowError(WalletConflictError);
+    expect(sdk.getWallet("alice")).toBe(alice);
+
+    sdk.removeWallet("alice");
+    const bob = stubWallet("wallet-2", [stubAddress(USER)]);
+    await addWallet(sdk, bob, "alice");
+    expect(sdk.getWallet("alice")).toBe(bob);
+  });
+
+  test("saves the seed of the wallet asked for", async () => {
+    const { sdk } = createSDK();
+    await addWallet(sdk, stubWallet("wallet-1", [stubAddress(USER)]), "alice");
+    await addWallet(sdk, stubWallet("wallet-2", [stubAddress(USER)]), "bob");
+
+    expect(sdk.saveWallet__insecure("seed.json", true, "alice")).toBe(
+      "wallet-1"
+    );
+    expect(sdk.saveWallet__insecure("seed.json")).toBe("wallet-2");
+  });
+});
+
+describe("address selection", () => {
+  const SECOND = "0x4444444444444444444444444444444444444444";
+
+  test("quotes and sends from the address asked for", async () => {
+    const { sdk, transact } = createSDK();
+    const first = stubAddress(USER);
+    const second = stubAddress(SECOND);
+    await addWallet(sdk, stubWallet("wallet-1", [first, second]));
+
+    //addresses are matched whatever their case
+    await sdk.transact("swap 1 USDC to ETH", {
+      addressId: SECOND.toUpperCase().replace("0X", "0x"),
+    });
+    expect(transact).toHaveBeenCalledWith(
+      expect.objectContaining({ address: SECOND })
+    );
+    expect(second.invokeContract).toHaveBeenCalledTimes(2);
+    expect(first.invokeContract).not.toHaveBeenCalled();
+  });
+
+  test("refuse an address the wallet does not hold", async () => {
+    const { sdk, transact } = createSDK();
+    await addWallet(sdk, stubWallet("wallet-1", [stubAddress(USER)]));
+
+    await expect(
+      sdk.transact("swap 1 USDC to ETH", { addressId: SECOND })
+    ).rejects.toThrowError(
+      new NoWalletError(`Address ${SECOND} does not belong to the wallet`)
+    );
+    expect(transact).not.toHaveBeenCalled();
+  });
+});
+
+describe("plan", () => {
+  test("decodes a prompt into steps without sending them", async () => {
+    const { sdk, transact } = createSDK();
+    const address = stubAddress(USER);
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+
+    const actions = await sdk.plan("swap 1 USDC to ETH");
+    expect(transact).toHaveBeenCalledWith({
+      prompt: "swap 1 USDC to ETH",
+      address: USER,
+      chainId: "8453",
+    });
+    expect(actions).toEqual([
+      expect.objectContaining({
+        action: "swap",
+        solver: "Enso",
+        steps: [
+          expect.objectContaining({
+            type: "invoke",
+            role: "approve",
+            to: USDC,
+            method: "approve",
+            args: { spender: ENSO_ROUTER, amount: "1000000" },
+          }),
+          expect.objectContaining({
+            type: "invoke",
+            role: "main",
+            to: ENSO_ROUTER,
+            method: "routeSingle",
+            args: {
+              tokenIn: USDC,
+              amountIn: "1000000",
+              commands: [],
+              state: [],
+            },
+          }),
+        ],
+      }),
+    ]);
+    expect(address.invokeContract).not.toHaveBeenCalled();
+    expect(address.createTransfer).not.toHaveBeenCalled();
+  });
+});
+
+describe("chains", () => {
+  test("refuse steps quoted for another chain than the wallet's", async () => {
+    const { sdk, transact } = createSDK();
+    transact.mockResolvedValue([
+      {
+        ...swapResult,
+        data: {
+          ...swapResult.data,
+          steps: swapResult.data.steps!.map((step) => ({
+            ...step,
+            chainId: 10,
+          })),
+        },
+      },
+    ]);
+    const address = stubAddress(USER);
+    await addWallet(sdk, stubWallet("wallet-1", [address]));
+
+    await expect(
+      sdk.transact("swap 1 USDC to ETH", { chainId: 10 })
+    ).rejects.toThrowError(WrongNetworkError);
+    const plan = await sdk.prepare("swap 1 USDC to ETH", { chainId: 10 });
+    await expect(sdk.execute(plan)).rejects.toThrowError(WrongNetworkError);
+    expect(address.invokeContract).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,105 @@
+import { describe, test, expect } from "@jest/globals";
+import { encodeFunctionData, erc20Abi, parseAbi } from "viem";
+import { AbiDetector, abiDetector } from "../src/selectors";
+import { SolverAbiRegistry } from "../src/solvers";
+import { AAVE_V3_L2_POOL_ABI, ENSO_ROUTER_ABI } from "../src/utils";
+
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const ENSO_ROUTER = "0x80EbA3855878739F4710233A8a19d89Bdd2ffB8E";
+
+describe("abiDetector", () => {
+  test("finds a router function from its selector", () => {
+    const data = encodeFunctionData({
+      abi: ENSO_ROUTER_ABI,
+      functionName: "routeSingle",
+      args: [USDC, 1000000n, [], []],
+    });
+    expect(abiDetector.detect(data)).toMatchObject({
+      status: "matched",
+      selector: "0xb35d7e73",
+      abiName: "ENSO_ROUTER_ABI",
+      functionName: "routeSingle",
+      args: { tokenIn: USDC, amountIn: "1000000", commands: [], state: [] },
+    });
+  });
+
+  test("matches functions several ABIs declare alike", () => {
+    const data = encodeFunctionData({
+      abi: erc20Abi,
+      functionName: "approve",
+      args: [ENSO_ROUTER, 1n],
+    });
+    const detection = abiDetector.detect(data);
+    expect(detection.status).toBe("matched");
+    expect(detection.candidates.map(({ abiName }) => abiName)).toEqual(
+      expect.arrayContaining(["ERC20_ABI", "WETH_ABI"])
+    );
+  });
+
+  test("names arguments after the matched overload", () => {
+    const args =
+      "0x0000000000000000000000000000000000000000000000000000000000000001";
+    const data = encodeFunctionData({
+      abi: AAVE_V3_L2_POOL_ABI,
+      functionName: "withdraw",
+      args: [args],
+    });
+    const detection = abiDetector.decode(data);
+    expect(detection.abiFunction.inputs).toHaveLength(1);
+    expect(detection.args).toEqual({ args });
+  });
+
+  test("reports unknown selectors", () => {
+    expect(abiDetector.detect("0xdeadbeef")).toEqual({
+      status: "unknown",
+      selector: "0xdeadbeef",
+      candidates: [],
+    });
+    expect(() => abiDetector.decode("0xdeadbeef")).toThrowError(
+      "No known ABI matches selector 0xdeadbeef"
+    );
+  });
+});
+
+describe("AbiDetector", () => {
+  test("reports different functions sharing a selector", () => {
+    const detector = new AbiDetector({}, undefined)
+      .register("TOKEN", parseAbi(["function burn(uint256 amount)"]))
+      .register(
+        "STORAGE",
+        parseAbi(["function collate_propagate_storage(bytes16 key)"])
+      );
+    const data = encodeFunctionData({
+      abi: parseAbi(["function burn(uint256 amount)"]),
+      args: [1n],
+    });
+    expect(detector.detect(data)).toMatchObject({
+      status: "ambiguous",
+      selector: "0x42966c68",
+      candidates: [
+        { abiName: "TOKEN", signature: "burn(uint256)" },
+        { abiName: "STORAGE", signature: "collate_propagate_storage(bytes16)" },
+      ],
+    });
+    expect(() => detector.decode(data)).toThrowError(
+      "Selector 0x42966c68 is ambiguous"
+    );
+  });
+
+  test("includes ABIs of solvers registered at runtime", () => {
+    const solvers = new SolverAbiRegistry();
+    const detector = new AbiDetector({}, solvers);
+    const data = encodeFunctionData({
+      abi: erc20Abi,
+      functionName: "transfer",
+      args: [ENSO_ROUTER, 1n],
+    });
+    expect(detector.detect(data).status).toBe("unknown");
+
+    solvers.register("Odos", { abi: erc20Abi });
+    expect(detector.decode(data)).toMatchObject({
+      abiName: "Odos",
+      functionName: "transfer",
+    });
+  });
+});
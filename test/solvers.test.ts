@@ -0,0 +1,54 @@
+import { describe, test, expect } from "@jest/globals";
+import { erc20Abi } from "viem";
+import { UnknownSolverError } from "../src/errors";
+import { SolverAbiRegistry, solverAbiRegistry } from "../src/solvers";
+import { ENSO_ROUTER_ABI, LIFI_ROUTER_ABI } from "../src/utils";
+
+const ENSO_ROUTER = "0x80EbA3855878739F4710233A8a19d89Bdd2ffB8E";
+
+describe("solverAbiRegistry", () => {
+  test("resolves the built-in solvers by name", () => {
+    expect(solverAbiRegistry.resolve("Enso")).toBe(ENSO_ROUTER_ABI);
+    expect(solverAbiRegistry.resolve("LI.FI")).toBe(LIFI_ROUTER_ABI);
+    expect(solverAbiRegistry.resolve("lifi")).toBe(LIFI_ROUTER_ABI);
+  });
+
+  test("falls back to the router a relabeled solver calls", () => {
+    expect(
+      solverAbiRegistry.resolve("Enso v2", {
+        chainId: 8453,
+        address: ENSO_ROUTER.toLowerCase(),
+      })
+    ).toBe(ENSO_ROUTER_ABI);
+  });
+
+  test("rejects unknown solvers", () => {
+    expect(() =>
+      solverAbiRegistry.resolve("Odos", { chainId: 8453, address: "0x1234" })
+    ).toThrowError(UnknownSolverError);
+    expect(() => solverAbiRegistry.resolve("Odos")).toThrowError(
+      'No ABI registered for solver "Odos"'
+    );
+  });
+});
+
+describe("SolverAbiRegistry", () => {
+  test("registers solvers at runtime", () => {
+    const registry = new SolverAbiRegistry();
+    registry.register("Odos", {
+      abi: erc20Abi,
+      routers: { 8453: ["0x19cEeAd7105607Cd444F5ad10dd51356436095a1"] },
+    });
+    expect(registry.solvers()).toEqual(["Odos"]);
+    expect(registry.resolve("odos")).toBe(erc20Abi);
+    expect(
+      registry.resolve("Odos Router", {
+        chainId: 8453,
+        address: "0x19cEeAd7105607Cd444F5ad10dd51356436095a1",
+      })
+    ).toBe(erc20Abi);
+
+    expect(registry.unregister("Odos")).toBe(true);
+    expect(registry.has("Odos")).toBe(false);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, test, expect } from "@jest/globals";
+import { TransactEventEmitter } from "../src/events";
+import { StepResult, TransactResult } from "../src/result";
+import { streamExecution } from "../src/stream";
+
+const step = { role: "main", status: "complete" } as StepResult;
+const stepEvent = (executionId: string) => ({
+  executionId,
+  actionIndex: 0,
+  stepIndex: 0,
+  action: "swap",
+  step,
+});
+
+describe("streamExecution", () => {
+  test("yields the records of its own execution and returns the result", async () => {
+    const events = new TransactEventEmitter();
+    const result: TransactResult = { executionId: "exec-1", actions: [] };
+    const stream = streamExecution(events, "exec-1", async () => {
+      await Promise.resolve();
+      events.emit("plan:decoded", { executionId: "exec-1", actions: [] });
+      events.emit("step:confirmed", stepEvent("exec-2"));
+      events.emit("step:submitted", {
+        ...stepEvent("exec-1"),
+        transactionHash: "0xabc",
+      });
+      events.emit("step:confirmed", stepEvent("exec-1"));
+      return result;
+    });
+
+    const types: string[] = [];
+    let next = await stream.next();
+    while (!next.done) {
+      types.push(next.value.type);
+      next = await stream.next();
+    }
+    expect(types).toEqual(["decoded", "submitted", "confirmed"]);
+    expect(next.value).toBe(result);
+  });
+
+  test("aborts the run when the consumer stops early", async () => {
+    const events = new TransactEventEmitter();
+    let runSignal: AbortSignal | undefined;
+    const stream = streamExecution(events, "exec-1", (signal) => {
+      runSignal = signal;
+      setTimeout(() =>
+        events.emit("plan:decoded", { executionId: "exec-1", actions: [] })
+      );
+      return new Promise<TransactResult>(() => {});
+    });
+
+    for await (const record of stream) {
+      expect(record.type).toBe("decoded");
+      break;
+    }
+    expect(runSignal?.aborted).toBe(true);
+  });
+
+  test("rethrows the error of the run", async () => {
+    const events = new TransactEventEmitter();
+    const stream = streamExecution(events, "exec-1", async () => {
+      throw new Error("Brian is down");
+    });
+    await expect(stream.next()).rejects.toThrow("Brian is down");
+  });
+});
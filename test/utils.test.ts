@@ -0,0 +1,283 @@
+import { describe, test, expect } from "@jest/globals";
+import { Abi, AbiFunction, AbiParameter, encodeFunctionData } from "viem";
+import {
+  AAVE_V3_L2_POOL_ABI,
+  BUNGEE_ROUTER_ABI,
+  decodeFunctionDataForCdp,
+  ENSO_ROUTER_ABI,
+  LIFI_ROUTER_ABI,
+} from "../src/utils";
+
+const USDC = "0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913";
+const WETH = "0x4200000000000000000000000000000000000006";
+const RECEIVER = "0x1111111111111111111111111111111111111111";
+const TRANSACTION_ID =
+  "0x2222222222222222222222222222222222222222222222222222222222222222";
+
+const ROUTER_ABIS = {
+  ENSO_ROUTER_ABI,
+  BUNGEE_ROUTER_ABI,
+  LIFI_ROUTER_ABI,
+} as Record<string, Abi>;
+
+//deterministic viem-style values for any ABI parameter
+const sampleArgument = (param: AbiParameter, seed: number): unknown => {
+  const array = param.type.match(/^(.*)\[(\d*)\]$/);
+  if (array) {
+    const element = { ...param, type: array[1] } as AbiParameter;
+    const length = array[2] ? Number(array[2]) : 2;
+    return Array.from({ length }, (_, index) =>
+      sampleArgument(element, seed * 10 + index)
+    );
+  }
+  if (param.type === "tuple" && "components" in param) {
+    return Object.fromEntries(
+      param.components.map((component, index) => [
+        component.name,
+        sampleArgument(component, seed * 10 + index),
+      ])
+    );
+  }
+  if (param.type === "address") {
+    return `0x${(seed + 1).toString(16).padStart(40, "0")}`;
+  }
+  if (param.type === "bool") {
+    return seed % 2 === 0;
+  }
+  if (param.type === "string") {
+    return `value-${seed}`;
+  }
+  if (param.type === "bytes") {
+    return `0x${"ab".repeat((seed % 3) + 1)}`;
+  }
+  if (param.type.startsWith("bytes")) {
+    const size = Number(param.type.slice(5));
+    return `0x${(seed + 1).toString(16).padStart(size * 2, "0")}`;
+  }
+  if (param.type.startsWith("int")) {
+    return BigInt(-seed - 1);
+  }
+  //uintN
+  return BigInt(seed + 1) * 10n ** 18n;
+};
+
+//turns `invokeContract` arguments back into viem values
+const fromCdpArgument = (param: AbiParameter, value: any): unknown => {
+  const array = param.type.match(/^(.*)\[\d*\]$/);
+  if (array) {
+    const element = { ...param, type: array[1] } as AbiParameter;
+    return value.map((item: any) => fromCdpArgument(element, item));
+  }
+  if (param.type === "tuple" && "components" in param) {
+    return Object.fromEntries(
+      param.components.map((component) => [
+        component.name,
+        fromCdpArgument(component, value[component.name!]),
+      ])
+    );
+  }
+  return /^u?int/.test(param.type) ? BigInt(value) : value;
+};
+
+//every value is either JSON-like or a tuple object, never a bigint
+const expectCdpShape = (param: AbiParameter, value: any) => {
+  const array = param.type.match(/^(.*)\[(\d*)\]$/);
+  if (array) {
+    expect(Array.isArray(value)).toBe(true);
+    if (array[2]) {
+      expect(value).toHaveLength(Number(array[2]));
+    }
+    const element = { ...param, type: array[1] } as AbiParameter;
+    value.forEach((item: any) => expectCdpShape(element, item));
+  } else if (param.type === "tuple" && "components" in param) {
+    expect(Array.isArray(value)).toBe(false);
+    expect(Object.keys(value)).toEqual(
+      param.components.map(({ name }) => name)
+    );
+    param.components.forEach((component) =>
+      expectCdpShape(component, value[component.name!])
+    );
+  } else if (param.type === "bool") {
+    expect(typeof value).toBe("boolean");
+  } else if (/^u?int/.test(param.type)) {
+    expect(value).toMatch(/^-?\d+$/);
+  } else {
+    expect(typeof value).toBe("string");
+  }
+};
+
+const routerFunctions = Object.entries(ROUTER_ABIS).flatMap(([name, abi]) =>
+  abi
+    .filter(
+      (item): item is AbiFunction =>
+        item.type === "function" &&
+        item.stateMutability !== "view" &&
+        item.stateMutability !== "pure"
+    )
+    .map((abiFunction) => ({ name, abi, abiFunction }))
+);
+
+describe("decodeFunctionDataForCdp", () => {
+  test.each(
+    routerFunctions.map(({ name, abi, abiFunction }) => [
+      `${name}.${abiFunction.name}`,
+      abi,
+      abiFunction,
+    ])
+  )("converts %s arguments", (_, abi, abiFunction) => {
+    const { inputs } = abiFunction as AbiFunction;
+    const data = encodeFunctionData({
+      abi: [abiFunction],
+      args: inputs.map((input, index) => sampleArgument(input, index)),
+    } as any);
+
+    const [args, functionName] = decodeFunctionDataForCdp(abi as Abi, data);
+    expect(functionName).toBe((abiFunction as AbiFunction).name);
+    expect(Object.keys(args)).toEqual(inputs.map(({ name }) => name));
+    inputs.forEach((input) => expectCdpShape(input, args[input.name!]));
+
+    //the converted arguments encode back to the same calldata
+    expect(
+      encodeFunctionData({
+        abi: [abiFunction],
+        args: inputs.map((input) => fromCdpArgument(input, args[input.name!])),
+      } as any)
+    ).toBe(data);
+  });
+
+  test("keeps LI.FI swap data as named structs", () => {
+    const data = encodeFunctionData({
+      abi: LIFI_ROUTER_ABI,
+      functionName: "swapTokensMultipleV3ERC20ToERC20",
+      args: [
+        TRANSACTION_ID,
+        "brian",
+        "",
+        RECEIVER,
+        990000n,
+        [
+          {
+            callTo: RECEIVER,
+            approveTo: RECEIVER,
+            sendingAssetId: USDC,
+            receivingAssetId: WETH,
+            fromAmount: 1000000n,
+            callData: "0x12345678",
+            requiresDeposit: true,
+          },
+          {
+            callTo: RECEIVER,
+            approveTo: RECEIVER,
+            sendingAssetId: WETH,
+            receivingAssetId: USDC,
+            fromAmount: 500n,
+            callData: "0x",
+            requiresDeposit: false,
+          },
+        ],
+      ],
+    });
+
+    expect(decodeFunctionDataForCdp(LIFI_ROUTER_ABI, data)).toEqual([
+      {
+        _transactionId: TRANSACTION_ID,
+        _integrator: "brian",
+        _referrer: "",
+        _receiver: RECEIVER,
+        _minAmountOut: "990000",
+        _swapData: [
+          {
+            callTo: RECEIVER,
+            approveTo: RECEIVER,
+            sendingAssetId: USDC,
+            receivingAssetId: WETH,
+            fromAmount: "1000000",
+            callData: "0x12345678",
+            requiresDeposit: true,
+          },
+          {
+            callTo: RECEIVER,
+            approveTo: RECEIVER,
+            sendingAssetId: WETH,
+            receivingAssetId: USDC,
+            fromAmount: "500",
+            callData: "0x",
+            requiresDeposit: false,
+          },
+        ],
+      },
+      "swapTokensMultipleV3ERC20ToERC20",
+    ]);
+  });
+
+  test("converts arrays nested inside Bungee structs", () => {
+    const data = encodeFunctionData({
+      abi: BUNGEE_ROUTER_ABI,
+      functionName: "swapAndMultiBridge",
+      args: [
+        {
+          swapRouteId: 1,
+          swapImplData: "0xaa",
+          bridgeRouteIds: [2, 3],
+          bridgeImplDataItems: ["0xbb", "0xcc"],
+          bridgeRatios: [40n, 60n],
+          eventDataItems: ["0x"],
+        },
+      ],
+    });
+
+    const [args] = decodeFunctionDataForCdp(BUNGEE_ROUTER_ABI, data);
+    expect(args).toEqual({
+      swapMultiBridgeRequest: {
+        swapRouteId: "1",
+        swapImplData: "0xaa",
+        bridgeRouteIds: ["2", "3"],
+        bridgeImplDataItems: ["0xbb", "0xcc"],
+        bridgeRatios: ["40", "60"],
+        eventDataItems: ["0x"],
+      },
+    });
+  });
+
+  test("names arguments after the overload the selector points to", () => {
+    const args =
+      "0x0000000000000000000000000000000000000000000000000000000000000001";
+    const data = encodeFunctionData({
+      abi: AAVE_V3_L2_POOL_ABI,
+      functionName: "withdraw",
+      args: [args],
+    });
+
+    expect(decodeFunctionDataForCdp(AAVE_V3_L2_POOL_ABI, data)).toEqual([
+      { args },
+      "withdraw",
+    ]);
+  });
+
+  test("keys unnamed tuple components by position", () => {
+    const abi = [
+      {
+        type: "function",
+        name: "execute",
+        stateMutability: "nonpayable",
+        inputs: [
+          {
+            name: "call",
+            type: "tuple",
+            components: [
+              { name: "", type: "address" },
+              { name: "", type: "uint256" },
+            ],
+          },
+        ],
+        outputs: [],
+      },
+    ] as const;
+    const data = encodeFunctionData({ abi, args: [[USDC, 7n]] });
+
+    expect(decodeFunctionDataForCdp(abi, data)).toEqual([
+      { call: { "0": USDC, "1": "7" } },
+      "execute",
+    ]);
+  });
+});